@@ -0,0 +1,63 @@
+/**
+ * api.ts - The API other extensions get from activating this one
+ *
+ *    const forester = await vscode.extensions.getExtension(id)?.activate();
+ *    if (forester?.version === 1) {
+ *       const forest = await forester.getForest();
+ *    }
+ *
+ * The version is bumped whenever a member changes incompatibly, so consumers
+ * can check it before use. Trees are shared with the extension's cache and
+ * must not be modified.
+ */
+
+import * as vscode from "vscode";
+import { Forest, ForesterTree, ForestStatus, getForest, getTree, getForestStatus, onForestChange } from "./get-forest";
+import { createNewTree, CreateNewTreeOptions } from "./edit-forest";
+
+export const API_VERSION = 1;
+
+export type { Forest, ForesterTree, ForestStatus, CreateNewTreeOptions };
+
+export interface ForesterApi {
+   readonly version: typeof API_VERSION;
+
+   /**
+    * The trees of the forest that owns `uri` (the active editor's forest by default).
+    * Waits for a running query unless `fastReturnStale` is set and there is cached data.
+    */
+   getForest(options?: { uri?: vscode.Uri; forceReload?: boolean; fastReturnStale?: boolean }): Promise<Forest>;
+
+   /**
+    * A single tree by ID, or null if no tree in the forest (or its foreign forests) has it
+    */
+   getTree(treeId: string, uri?: vscode.Uri): Promise<ForesterTree | null>;
+
+   /**
+    * Called whenever any forest's trees change
+    */
+   onForestChange(listener: () => void): vscode.Disposable;
+
+   /**
+    * Whether the forest that owns `uri` is valid, updating or stale
+    */
+   getStatus(uri?: vscode.Uri): ForestStatus;
+
+   /**
+    * Create a new tree with `forester new`, asking the user for anything not given in `options`.
+    * Resolves to undefined if the user cancelled or forester failed.
+    */
+   createTree(options?: CreateNewTreeOptions): Promise<{ treeId: string; filePath: vscode.Uri } | undefined>;
+}
+
+export function createForesterApi(): ForesterApi {
+   return {
+      version: API_VERSION,
+      getForest: ({ uri, forceReload, fastReturnStale } = {}) => getForest({ uri, forceReload, fastReturnStale }),
+      getTree: (treeId, uri) => getTree(treeId, uri),
+      onForestChange: (listener) => onForestChange(listener),
+      getStatus: (uri) => ({ ...getForestStatus(uri) }),
+      // Selections belong to the user, not to whichever extension is calling
+      createTree: (options = {}) => createNewTree({ useSelections: false, ...options }),
+   };
+}
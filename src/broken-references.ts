@@ -0,0 +1,212 @@
+/**
+ * broken-references.ts - Warnings on references to trees that don't exist
+ *
+ * Open tree documents are checked as they're edited against the cached forest
+ * (and its foreign forests). Each warning offers quick fixes: create a tree
+ * with the missing ID, replace it with the closest existing tree, or remove
+ * the reference.
+ */
+
+import * as vscode from 'vscode';
+import { Forest, ForesterTree, getForest, getForeignForest, onForestChange } from './get-forest';
+import { findTreeReferences, isTreeReference, referenceExtent, TreeReference } from './tree-parser';
+
+const DIAGNOSTIC_CODE = 'broken-reference';
+
+// How long to wait after the last keystroke before re-checking a document
+const VALIDATE_DEBOUNCE_MS = 300;
+
+// How many "replace with" suggestions to offer
+const MAX_SUGGESTIONS = 3;
+
+let diagnosticCollection: vscode.DiagnosticCollection | null = null;
+const pendingValidations = new Map<string, NodeJS.Timeout>();
+
+/**
+ * Start checking open tree documents for broken references
+ */
+export function initBrokenReferenceDiagnostics(context: vscode.ExtensionContext) {
+   if (diagnosticCollection) {
+      return;
+   }
+
+   diagnosticCollection = vscode.languages.createDiagnosticCollection('forester-references');
+   context.subscriptions.push(
+      diagnosticCollection,
+      vscode.workspace.onDidOpenTextDocument(document => scheduleValidation(document, 0)),
+      vscode.workspace.onDidChangeTextDocument(event => scheduleValidation(event.document, VALIDATE_DEBOUNCE_MS)),
+      vscode.workspace.onDidCloseTextDocument(document => {
+         clearTimeout(pendingValidations.get(document.uri.toString()));
+         pendingValidations.delete(document.uri.toString());
+         diagnosticCollection?.delete(document.uri);
+      }),
+      // Trees appearing or disappearing can fix or break references anywhere
+      onForestChange(() => vscode.workspace.textDocuments.forEach(document => scheduleValidation(document, VALIDATE_DEBOUNCE_MS))),
+      new vscode.Disposable(() => {
+         pendingValidations.forEach(timer => clearTimeout(timer));
+         pendingValidations.clear();
+      }),
+   );
+
+   vscode.workspace.textDocuments.forEach(document => scheduleValidation(document, 0));
+}
+
+function isTreeDocument(document: vscode.TextDocument): boolean {
+   return document.uri.scheme === 'file' && document.fileName.endsWith('.tree') && !!vscode.workspace.getWorkspaceFolder(document.uri);
+}
+
+function scheduleValidation(document: vscode.TextDocument, delayMs: number) {
+   if (!isTreeDocument(document)) {
+      return;
+   }
+
+   const key = document.uri.toString();
+   clearTimeout(pendingValidations.get(key));
+   pendingValidations.set(key, setTimeout(() => {
+      pendingValidations.delete(key);
+      validateDocument(document);
+   }, delayMs));
+}
+
+/**
+ * The references in `text` to trees other than those in `known`
+ */
+export function findBrokenReferences(text: string, known: Set<string>): TreeReference[] {
+   return findTreeReferences(text).filter(reference => isTreeReference(reference) && !known.has(reference.treeId));
+}
+
+async function validateDocument(document: vscode.TextDocument) {
+   if (!diagnosticCollection || document.isClosed) {
+      return;
+   }
+
+   const forest = await getForest({ uri: document.uri, fastReturnStale: true });
+   // No forest yet (or forester isn't working): everything would look broken
+   if (forest.length === 0) {
+      return;
+   }
+
+   const known = new Set([...forest, ...await getForeignForest(document.uri)].map(tree => tree.uri));
+
+   const diagnostics = findBrokenReferences(document.getText(), known)
+      .map(reference => {
+         const diagnostic = new vscode.Diagnostic(
+            new vscode.Range(document.positionAt(reference.start), document.positionAt(reference.end)),
+            `Tree '${reference.treeId}' not found`,
+            vscode.DiagnosticSeverity.Warning,
+         );
+         diagnostic.source = 'forester';
+         diagnostic.code = DIAGNOSTIC_CODE;
+         return diagnostic;
+      });
+
+   if (!document.isClosed) {
+      diagnosticCollection.set(document.uri, diagnostics);
+   }
+}
+
+/**
+ * Edit distance between two strings (Levenshtein)
+ */
+function editDistance(a: string, b: string): number {
+   let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+   for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+         current[j] = Math.min(
+            previous[j] + 1,
+            current[j - 1] + 1,
+            previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+         );
+      }
+      previous = current;
+   }
+   return previous[b.length];
+}
+
+/**
+ * The trees whose ID or title is closest to `missing`, best first
+ */
+export function closestTrees(missing: string, forest: Forest): ForesterTree[] {
+   const target = missing.toLowerCase();
+   const similarity = (candidate: string) => {
+      const text = candidate.toLowerCase();
+      return 1 - editDistance(target, text) / Math.max(target.length, text.length, 1);
+   };
+
+   return forest
+      .map(tree => ({ tree, score: Math.max(similarity(tree.uri), tree.title ? similarity(tree.title) : 0) }))
+      .filter(({ score }) => score >= 0.5)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_SUGGESTIONS)
+      .map(({ tree }) => tree);
+}
+
+export class BrokenReferenceCodeActionProvider implements vscode.CodeActionProvider {
+   public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+   public async provideCodeActions(
+      document: vscode.TextDocument,
+      _range: vscode.Range,
+      context: vscode.CodeActionContext,
+   ): Promise<vscode.CodeAction[]> {
+      const diagnostics = context.diagnostics.filter(diagnostic => diagnostic.code === DIAGNOSTIC_CODE);
+      if (diagnostics.length === 0) {
+         return [];
+      }
+
+      const text = document.getText();
+      const references = findTreeReferences(text);
+      const forest = await getForest({ uri: document.uri, fastReturnStale: true });
+      const actions: vscode.CodeAction[] = [];
+
+      for (const diagnostic of diagnostics) {
+         const start = document.offsetAt(diagnostic.range.start);
+         const reference = references.find(ref => ref.start === start);
+         if (!reference) {
+            continue;
+         }
+
+         const create = new vscode.CodeAction(`Create tree '${reference.treeId}'`, vscode.CodeActionKind.QuickFix);
+         create.command = { title: create.title, command: 'forester.createTreeWithId', arguments: [reference.treeId, document.uri] };
+         create.diagnostics = [diagnostic];
+         actions.push(create);
+
+         for (const [index, tree] of closestTrees(reference.treeId, forest).entries()) {
+            const replace = new vscode.CodeAction(
+               `Replace with '${tree.uri}'${tree.title ? ` (${tree.title})` : ''}`,
+               vscode.CodeActionKind.QuickFix,
+            );
+            replace.edit = new vscode.WorkspaceEdit();
+            replace.edit.replace(document.uri, diagnostic.range, tree.uri);
+            replace.diagnostics = [diagnostic];
+            replace.isPreferred = index === 0;
+            actions.push(replace);
+         }
+
+         const extent = referenceExtent(text, reference);
+         const remove = new vscode.CodeAction('Remove reference', vscode.CodeActionKind.QuickFix);
+         remove.edit = new vscode.WorkspaceEdit();
+         const removalRange = extent.replacement
+            ? new vscode.Range(document.positionAt(extent.start), document.positionAt(extent.end))
+            : this.removalRange(document, extent.start, extent.end);
+         remove.edit.replace(document.uri, removalRange, extent.replacement);
+         remove.diagnostics = [diagnostic];
+         actions.push(remove);
+      }
+
+      return actions;
+   }
+
+   /**
+    * The range to delete for a reference: its whole line if nothing else is on it
+    */
+   private removalRange(document: vscode.TextDocument, start: number, end: number): vscode.Range {
+      const range = new vscode.Range(document.positionAt(start), document.positionAt(end));
+      const line = document.lineAt(range.start.line);
+      if (range.isSingleLine && line.text.trim() === document.getText(range).trim()) {
+         return line.rangeIncludingLineBreak;
+      }
+      return range;
+   }
+}
@@ -0,0 +1,51 @@
+/**
+ * change-batcher.ts - Collects file system watcher events into batches
+ *
+ * A git checkout or a sync fires a burst of events; they're collected until
+ * things have been quiet for a moment and then handed over in one go, keeping
+ * only the latest event for each file.
+ */
+
+import * as vscode from "vscode";
+
+export interface FileChange {
+   uri: vscode.Uri;
+   deleted: boolean;
+}
+
+export class ChangeBatcher {
+   private pending = new Map<string, FileChange>();
+   private timer: NodeJS.Timeout | undefined;
+
+   /**
+    * @param delayMs - How long to wait after the last event before processing the batch
+    * @param process - Handles a batch, in the order the files first changed
+    */
+   constructor(
+      private readonly delayMs: number,
+      private readonly process: (changes: FileChange[]) => void,
+   ) { }
+
+   public queue(uri: vscode.Uri, deleted: boolean) {
+      // Only the latest event for a file matters
+      this.pending.set(uri.fsPath, { uri, deleted });
+      clearTimeout(this.timer);
+      this.timer = setTimeout(() => this.flush(), this.delayMs);
+   }
+
+   /**
+    * Drop a batch that hasn't been processed yet
+    */
+   public dispose() {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+      this.pending.clear();
+   }
+
+   private flush() {
+      this.timer = undefined;
+      const changes = Array.from(this.pending.values());
+      this.pending.clear();
+      this.process(changes);
+   }
+}
@@ -0,0 +1,143 @@
+/**
+ * document-symbols.ts - Outline and breadcrumbs for .tree files
+ *
+ * Lists a tree's title and metadata, its inline `\subtree`s (named by their
+ * own titles, with their contents nested inside), `\section`-style blocks and
+ * every `\transclude`, labelled with the title of the tree it pulls in.
+ */
+
+import * as vscode from 'vscode';
+import { Forest, ForesterTree, getForest, getForeignForest } from './get-forest';
+import { maskInactiveRegions, readBracedArgument, markupToPlainText, METADATA_COMMANDS } from './tree-parser';
+
+const SECTION_COMMANDS = ['section', 'subsection'];
+
+const commandPattern = new RegExp(`\\\\(${[...METADATA_COMMANDS, 'subtree', ...SECTION_COMMANDS, 'transclude'].join('|')})(?=[[{])`, 'g');
+
+/**
+ * The outline of `document`
+ * @param findTree - Look up a transcluded tree, for its title
+ */
+export async function findDocumentSymbols(
+   document: vscode.TextDocument,
+   findTree: (treeId: string) => Promise<ForesterTree | undefined>,
+): Promise<vscode.DocumentSymbol[]> {
+   const source = maskInactiveRegions(document.getText());
+   const { symbols } = await parseRegion(document, source, 0, source.length, findTree);
+   return symbols;
+}
+
+/**
+ * Symbols between `start` and `end`, plus the region's own title (for naming subtrees)
+ */
+async function parseRegion(
+   document: vscode.TextDocument,
+   source: string,
+   start: number,
+   end: number,
+   findTree: (treeId: string) => Promise<ForesterTree | undefined>,
+): Promise<{ symbols: vscode.DocumentSymbol[]; title: string | null }> {
+   const symbols: vscode.DocumentSymbol[] = [];
+   let title: string | null = null;
+
+   const range = (from: number, to: number) => new vscode.Range(document.positionAt(from), document.positionAt(to));
+
+   const pattern = new RegExp(commandPattern.source, 'g');
+   pattern.lastIndex = start;
+   let match;
+   while ((match = pattern.exec(source)) !== null && match.index < end) {
+      const name = match[1];
+      const commandStart = match.index;
+      let position = commandStart + match[0].length;
+
+      // \subtree[address]{...}
+      let address: string | undefined;
+      if (source[position] === '[') {
+         const close = source.indexOf(']', position);
+         if (close < 0 || close > end) {
+            continue;
+         }
+         address = source.slice(position + 1, close).trim();
+         position = close + 1;
+      }
+
+      const argument = readBracedArgument(source, position);
+      if (!argument || argument.end > end) {
+         continue;
+      }
+      const argumentRange = range(position + 1, argument.end - 1);
+
+      if (name === 'title') {
+         if (title === null) {
+            title = markupToPlainText(argument.content);
+         }
+         symbols.push(new vscode.DocumentSymbol(
+            markupToPlainText(argument.content) || '(empty title)', 'title', vscode.SymbolKind.String,
+            range(commandStart, argument.end), argumentRange,
+         ));
+      } else if (METADATA_COMMANDS.includes(name)) {
+         // \meta{key}{value} is shown as `key: value`
+         const value = name === 'meta' ? readBracedArgument(source, argument.end) : null;
+         const metadataEnd = value && value.end <= end ? value.end : argument.end;
+         const label = value && metadataEnd === value.end
+            ? `${markupToPlainText(argument.content)}: ${markupToPlainText(value.content)}`
+            : markupToPlainText(argument.content);
+         symbols.push(new vscode.DocumentSymbol(
+            label || `(empty ${name})`, name, vscode.SymbolKind.Property,
+            range(commandStart, metadataEnd), argumentRange,
+         ));
+         pattern.lastIndex = metadataEnd;
+         continue;
+      } else if (name === 'transclude') {
+         const treeId = argument.content.trim();
+         const tree = treeId ? await findTree(treeId) : undefined;
+         symbols.push(new vscode.DocumentSymbol(
+            tree?.title ? `${tree.title} [${treeId}]` : treeId || '(empty transclusion)', 'transclude', vscode.SymbolKind.File,
+            range(commandStart, argument.end), argumentRange,
+         ));
+      } else if (name === 'subtree') {
+         // Everything inside the subtree belongs to it
+         const inner = await parseRegion(document, source, position + 1, argument.end - 1, findTree);
+         const symbol = new vscode.DocumentSymbol(
+            inner.title || address || '(untitled subtree)', address ? `subtree [${address}]` : 'subtree', vscode.SymbolKind.Namespace,
+            range(commandStart, argument.end), range(commandStart, position),
+         );
+         symbol.children = inner.symbols;
+         symbols.push(symbol);
+      } else if (SECTION_COMMANDS.includes(name)) {
+         // \section{title}{body}
+         const body = readBracedArgument(source, argument.end);
+         const sectionEnd = body && body.end <= end ? body.end : argument.end;
+         const symbol = new vscode.DocumentSymbol(
+            markupToPlainText(argument.content) || `(untitled ${name})`, name, vscode.SymbolKind.Namespace,
+            range(commandStart, sectionEnd), argumentRange,
+         );
+         if (body && body.end <= end) {
+            symbol.children = (await parseRegion(document, source, argument.end + 1, body.end - 1, findTree)).symbols;
+         }
+         symbols.push(symbol);
+         pattern.lastIndex = sectionEnd;
+         continue;
+      }
+
+      pattern.lastIndex = argument.end;
+   }
+
+   return { symbols, title };
+}
+
+export class ForesterDocumentSymbolProvider implements vscode.DocumentSymbolProvider {
+   public async provideDocumentSymbols(document: vscode.TextDocument): Promise<vscode.DocumentSymbol[]> {
+      // Transclusions are labelled from whatever forest is already cached; only read it once we meet one
+      let forest: Promise<Forest> | undefined;
+      const findTree = async (treeId: string) => {
+         forest ??= Promise.all([
+            getForest({ uri: document.uri, fastReturnStale: true }).catch(() => []),
+            getForeignForest(document.uri),
+         ]).then(([local, foreign]) => [...local, ...foreign]);
+         return (await forest).find((tree) => tree.uri === treeId);
+      };
+
+      return findDocumentSymbols(document, findTree);
+   }
+}
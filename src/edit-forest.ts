@@ -4,15 +4,17 @@
 
 import * as vscode from "vscode";
 import * as path from "path";
-import { parseTaxonAndTitle, getPrefix, getRootTreeDirectory, getAvailableTemplates } from "./utils";
+import { parseTaxonAndTitle, getPrefix, getRootTreeDirectory, getAvailableTemplates, getRoot } from "./utils";
 import { command, getTree } from "./get-forest";
+import { stripTreeMetadata } from "./tree-parser";
+import { findReferencesTo } from "./tree-references";
 
 /**
  * Open and focus a newly created tree file based on configuration
  * Places cursor at the end of the document
  */
 async function focusNewTree(uri: vscode.Uri): Promise<void> {
-   const extensionConfig = vscode.workspace.getConfiguration("forester");
+   const extensionConfig = vscode.workspace.getConfiguration("forester", uri);
    const openMode = extensionConfig.get<string>("create.openNewTreeMode") || "background";
 
    // Handle the "off" mode - don't open the file at all
@@ -208,11 +210,48 @@ export function findTranscludeReferenceAtCursor(editor: vscode.TextEditor): stri
 }
 
 /**
- * Options for creating a new tree
+ * Add the date, author, taxon and title to a new tree's content, unless its template already has them
  */
-interface CreateNewTreeOptions {
+function addTreeMetadata(content: string, { taxon, title }: { taxon?: string; title?: string }, root: vscode.Uri): string {
+   const extensionConfig = vscode.workspace.getConfiguration("forester", root);
+
+   // Handle date first, then author, blank line, then taxon and title
+
+   let author = extensionConfig.get<string>("create.author") || undefined;
+   const date = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+   if (!content.includes('\\date')) {
+      content += `\\date{${date}}\n`;
+   }
+   if (!content.includes('\\author') && author) {
+      content += `\\author{${author}}\n\n`;
+   }
+   if (!content.includes('\\taxon') && taxon) {
+      content += `\\taxon{${taxon}}\n`;
+   }
+   if (!content.includes('\\title') && title) {
+      content += `\\title{${title}}\n\n`;
+   }
+   return content;
+}
+
+/**
+ * Options for creating a new tree.
+ * Anything left out is asked for (or taken from the settings) as in the commands.
+ */
+export interface CreateNewTreeOptions {
    destFolder?: vscode.Uri;
    fromTemplate?: boolean;
+   /** Skip the prefix prompt */
+   prefix?: string;
+   /** Skip the title prompt */
+   title?: string;
+   taxon?: string;
+   /** Skip the template picker; null for no template */
+   template?: string | null;
+   /** Move the text selected in visible editors into the new tree (default true) */
+   useSelections?: boolean;
+   /** Text to put in the new tree after its metadata */
+   content?: string;
 }
 
 /**
@@ -220,13 +259,16 @@ interface CreateNewTreeOptions {
  * @param options - Options for tree creation
  * @returns The created tree ID and file path, or undefined if cancelled/failed
  */
-async function createNewTree(options: CreateNewTreeOptions = {}): Promise<{ treeId: string; filePath: vscode.Uri } | undefined> {
+export async function createNewTree(options: CreateNewTreeOptions = {}): Promise<{ treeId: string; filePath: vscode.Uri } | undefined> {
    try {
-      const { destFolder: destFolderParam, fromTemplate = false } = options;
+      const { destFolder: destFolderParam, fromTemplate = false, useSelections = true } = options;
+
+      // The new tree goes into the forest of the destination folder, or of the active editor
+      const root = getRoot(destFolderParam);
 
       // Collect selected text from all visible editors
       const selections: { editor: vscode.TextEditor; text: string; }[] = [];
-      for (const editor of vscode.window.visibleTextEditors) {
+      for (const editor of useSelections ? vscode.window.visibleTextEditors : []) {
          if (!editor.selection.isEmpty) {
             const text = editor.document.getText(editor.selection);
             selections.push({ editor, text });
@@ -234,20 +276,22 @@ async function createNewTree(options: CreateNewTreeOptions = {}): Promise<{ tree
       }
 
       // Get the prefix
-      const prefix = await getPrefix();
+      const prefix = options.prefix ?? await getPrefix(root);
       if (!prefix) return // User cancelled
 
       // Ask for a title (with optional taxon)
-      const titleResult = await collectTitleInput({
-         prompt: "Enter title for the new tree (abbreviations like 'thm', 'def', 'prop' are supported)",
-         placeholder: "e.g., 'Introduction to Category Theory' or 'thm: Fundamental Theorem'"
-      });
+      const titleResult = options.title !== undefined
+         ? { taxon: options.taxon, title: options.title }
+         : await collectTitleInput({
+            prompt: "Enter title for the new tree (abbreviations like 'thm', 'def', 'prop' are supported)",
+            placeholder: "e.g., 'Introduction to Category Theory' or 'thm: Fundamental Theorem'"
+         });
       if (!titleResult) return undefined; // User cancelled
 
       const { taxon, title } = titleResult;
 
       // Determine destination folder if not provided
-      const treesDir = await getRootTreeDirectory();
+      const treesDir = await getRootTreeDirectory(root);
       const prefixDir = vscode.Uri.joinPath(treesDir, prefix);
       let destFolder = destFolderParam;
       if (!destFolder) {
@@ -262,16 +306,18 @@ async function createNewTree(options: CreateNewTreeOptions = {}): Promise<{ tree
       }
 
       // Handle templates
-      const extensionConfig = vscode.workspace.getConfiguration("forester");
+      const extensionConfig = vscode.workspace.getConfiguration("forester", root);
       const defaultTemplate = extensionConfig.get<string>('defaultTemplate');
       let template: string | undefined = undefined;
-      if (defaultTemplate) {
+      if (options.template !== undefined) {
+         template = options.template ?? undefined;
+      } else if (defaultTemplate) {
          // Use the default template if set
          template = defaultTemplate !== "(No template)" ? defaultTemplate : undefined;
       }
 
-      if (fromTemplate || !defaultTemplate) {
-         const templates = await getAvailableTemplates();
+      if (options.template === undefined && (fromTemplate || !defaultTemplate)) {
+         const templates = await getAvailableTemplates(root);
 
          if (templates.length <= 1) {
             template = undefined;
@@ -294,14 +340,14 @@ async function createNewTree(options: CreateNewTreeOptions = {}): Promise<{ tree
 
 
       // Create the new tree file
-      const random: boolean = vscode.workspace.getConfiguration('forester').get('create.random') ?? false;
+      const random: boolean = extensionConfig.get('create.random') ?? false;
 
       let newTreeFilePath = (await command(["new",
          "--dest", destFolder.fsPath,
          "--prefix", prefix,
          ...(template ? [`--template=${template}`] : []),
          ...(random ? ["--random"] : [])
-      ]))?.trim();
+      ], root))?.trim();
 
       if (!newTreeFilePath) {
          vscode.window.showErrorMessage(`Failed to create new tree. This can happen if forest is not in a valid state.`);
@@ -312,15 +358,12 @@ async function createNewTree(options: CreateNewTreeOptions = {}): Promise<{ tree
       const treeId = path.basename(newTreeFilePath, '.tree');
       let newTreeContent = (await vscode.workspace.fs.readFile(uri)).toString()
 
-      // Handle date first, then author, blank line, then taxon and title
+      newTreeContent = addTreeMetadata(newTreeContent, { taxon, title }, root);
 
-      let author = extensionConfig.get<string>("create.author") || undefined;
-      const date = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
-      if (!newTreeContent.includes('\\date')) newTreeContent += `\\date{${date}}\n`;
-      if (!newTreeContent.includes('\\author') && author) newTreeContent += `\\author{${author}}\n\n`;
-      if (!newTreeContent.includes('\\taxon') && taxon) newTreeContent += `\\taxon{${taxon}}\n`;
-      if (!newTreeContent.includes('\\title') && title) newTreeContent += `\\title{${title}}\n\n`;
 
+      if (options.content) {
+         newTreeContent += options.content;
+      }
 
       // Handle selections (append to the new tree)
       if (selections.length > 0) {
@@ -348,6 +391,54 @@ async function createNewTree(options: CreateNewTreeOptions = {}): Promise<{ tree
 }
 
 
+/**
+ * Create a tree with the given ID (rather than one picked by `forester new`),
+ * e.g. for a reference to a tree that doesn't exist yet
+ * @returns The new tree's file, or undefined if cancelled/failed
+ */
+export async function createTreeWithId(treeId: string, uri?: vscode.Uri): Promise<vscode.Uri | undefined> {
+   try {
+      const root = getRoot(uri);
+
+      const titleResult = await collectTitleInput({
+         prompt: `Enter title for the new tree ${treeId} (abbreviations like 'thm', 'def', 'prop' are supported)`,
+         placeholder: "e.g., 'Introduction to Category Theory' or 'thm: Fundamental Theorem'"
+      });
+      if (!titleResult) {
+         return undefined; // User cancelled
+      }
+
+      // Same placement as `forester new`: the prefix's own directory if there is one
+      const treesDir = await getRootTreeDirectory(root);
+      const prefix = treeId.includes('-') ? treeId.slice(0, treeId.lastIndexOf('-')) : undefined;
+      let destFolder = treesDir;
+      if (prefix) {
+         try {
+            await vscode.workspace.fs.stat(vscode.Uri.joinPath(treesDir, prefix));
+            destFolder = vscode.Uri.joinPath(treesDir, prefix);
+         } catch {
+            // Prefix directory doesn't exist, use main trees directory
+         }
+      }
+
+      const fileUri = vscode.Uri.joinPath(destFolder, `${treeId}.tree`);
+      const content = addTreeMetadata("", titleResult, root);
+
+      const edit = new vscode.WorkspaceEdit();
+      edit.createFile(fileUri, { overwrite: false, contents: new TextEncoder().encode(content) });
+      if (!await vscode.workspace.applyEdit(edit)) {
+         vscode.window.showErrorMessage(`Failed to create ${fileUri.fsPath}`);
+         return undefined;
+      }
+
+      await focusNewTree(fileUri);
+      return fileUri;
+   } catch (error) {
+      vscode.window.showErrorMessage(`Failed to create new tree: ${error}`);
+      return undefined;
+   }
+}
+
 /**
  * Create a new tree and transclude it at the current cursor position
  * This is the main implementation for the "transclude new tree" command
@@ -406,7 +497,7 @@ export async function transcludeNewTree(): Promise<void> {
    await focusNewTree(result.filePath);
 
    // Get configuration to check if we need to return focus to original document
-   const extensionConfig = vscode.workspace.getConfiguration("forester");
+   const extensionConfig = vscode.workspace.getConfiguration("forester", currentDocUri);
    const openNewTreeToSide = extensionConfig.get<boolean>("create.openNewTreeToSide");
    const openNewTree = extensionConfig.get<boolean>("create.openNewTree");
 
@@ -416,6 +507,80 @@ export async function transcludeNewTree(): Promise<void> {
    }
 }
 
+/**
+ * Move a range of a document into a new tree, leaving a transclusion of it behind
+ * This is the implementation of the "extract selection to new tree" code action
+ */
+export async function extractToNewTree(uri: vscode.Uri, range: vscode.Range): Promise<void> {
+   const document = await vscode.workspace.openTextDocument(uri);
+   const content = document.getText(range).trim();
+   if (!content) {
+      return;
+   }
+
+   const result = await createNewTree({ useSelections: false, content: content + '\n' });
+   if (!result) {
+      return; // User cancelled or error
+   }
+
+   const edit = new vscode.WorkspaceEdit();
+   edit.replace(uri, range, `\\transclude{${result.treeId}}`);
+   await vscode.workspace.applyEdit(edit);
+
+   await focusNewTree(result.filePath);
+}
+
+/**
+ * Replace a `\transclude{treeId}` (spanning `range`) with the body of the tree it transcludes,
+ * then offer to delete that tree if nothing references it any more
+ * This is the implementation of the "inline transclusion" code action
+ */
+export async function inlineTransclusion(uri: vscode.Uri, treeId: string, range: vscode.Range): Promise<void> {
+   const tree = await getTree(treeId, uri);
+   if (!tree?.sourcePath) {
+      vscode.window.showErrorMessage(`Tree ${treeId} not found`);
+      return;
+   }
+
+   const document = await vscode.workspace.openTextDocument(uri);
+   if (tree.sourcePath === document.fileName) {
+      vscode.window.showErrorMessage(`Tree ${treeId} transcludes itself and can't be inlined`);
+      return;
+   }
+
+   // Read through an open document so unsaved edits to the transcluded tree are included
+   const source = (await vscode.workspace.openTextDocument(vscode.Uri.file(tree.sourcePath))).getText();
+   let body = stripTreeMetadata(source).trim();
+
+   // Keep the body at the indentation of the transclusion
+   const linePrefix = document.lineAt(range.start.line).text.slice(0, range.start.character);
+   if (/^\s+$/.test(linePrefix)) {
+      body = body.replace(/\n(?=.)/g, `\n${linePrefix}`);
+   }
+
+   const edit = new vscode.WorkspaceEdit();
+   edit.replace(uri, range, body);
+   if (!await vscode.workspace.applyEdit(edit)) {
+      vscode.window.showErrorMessage(`Failed to inline ${treeId}`);
+      return;
+   }
+
+   if ((await findReferencesTo(treeId, uri)).length > 0) {
+      return;
+   }
+
+   const choice = await vscode.window.showInformationMessage(
+      `Tree ${treeId} is no longer referenced anywhere. Delete it?`,
+      "Delete Tree",
+      "Keep"
+   );
+   if (choice === "Delete Tree") {
+      const deletion = new vscode.WorkspaceEdit();
+      deletion.deleteFile(vscode.Uri.file(tree.sourcePath), { ignoreIfNotExists: true });
+      await vscode.workspace.applyEdit(deletion);
+   }
+}
+
 /**
  * Create a new tree file
  * This is the main implementation for the "new tree" and "new tree from template" commands
@@ -468,9 +633,9 @@ export async function renameTreeCommand(treeIdParam?: string): Promise<void> {
  * Rename a tree by its ID with user input
  * This is the low-level rename implementation
  */
-export async function renameTreeById(treeId: string): Promise<void> {
+export async function renameTreeById(treeId: string, uri?: vscode.Uri): Promise<void> {
    // Get the tree object
-   const tree = await getTree(treeId);
+   const tree = await getTree(treeId, uri);
    if (!tree) {
       vscode.window.showErrorMessage(`Tree ${treeId} not found`);
       return;
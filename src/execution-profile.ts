@@ -0,0 +1,97 @@
+/**
+ * execution-profile.ts - How forester gets run
+ *
+ * VS Code doesn't inherit the shell's PATH, and many setups only have forester
+ * inside `opam exec --`, `nix develop -c` or a container. The execution
+ * profile (the `forester.execution.*` settings) puts a wrapper command in
+ * front of `forester.path`, adds environment variables and can run forester
+ * from a directory other than the workspace folder. Every forester invocation
+ * goes through `resolveInvocation`.
+ */
+
+import * as vscode from "vscode";
+import { existsSync } from "fs";
+import { delimiter, isAbsolute, join } from "path";
+
+/**
+ * A fully resolved forester command line
+ */
+export interface ForesterInvocation {
+   command: string;
+   args: string[];
+   cwd: string;
+   /** The full environment (process environment plus the profile's variables) */
+   env: NodeJS.ProcessEnv;
+   /** Just the profile's variables, for logging */
+   extraEnv: { [key: string]: string };
+}
+
+/**
+ * The directory forester runs in for the forest at `root`:
+ * `forester.execution.cwd` (relative to the root) if set, else the root itself
+ */
+export function getForestDirectory(root: vscode.Uri): string {
+   const cwd = vscode.workspace.getConfiguration("forester", root).get<string>("execution.cwd");
+   if (!cwd) {
+      return root.fsPath;
+   }
+   return isAbsolute(cwd) ? cwd : join(root.fsPath, cwd);
+}
+
+/**
+ * Build the command line for running forester with `foresterArgs` for the forest at `root`
+ * @param cwd - Run somewhere other than the forest directory (e.g. a foreign forest)
+ */
+export function resolveInvocation(root: vscode.Uri, foresterArgs: string[], cwd?: string): ForesterInvocation {
+   const config = vscode.workspace.getConfiguration("forester", root);
+   const path = config.get<string>("path") || "forester";
+   const wrapper = config.get<string[]>("execution.wrapper") ?? [];
+   const extraEnv = config.get<{ [key: string]: string }>("execution.env") ?? {};
+
+   const [command, ...args] = [...wrapper.filter(part => part.length > 0), path, ...foresterArgs];
+   return {
+      command,
+      args,
+      cwd: cwd ?? getForestDirectory(root),
+      env: { ...process.env, ...extraEnv },
+      extraEnv,
+   };
+}
+
+/**
+ * What a failed `execFile` of forester left behind: its output, and whether it was
+ * killed (e.g. for running past its timeout)
+ */
+export function failedRunOutput(error: unknown): { stdout?: string; stderr?: string; killed?: boolean } {
+   if (!(error instanceof Error)) {
+      return {};
+   }
+   const { stdout, stderr, killed } = error as Error & { stdout?: string; stderr?: string; killed?: boolean };
+   return { stdout, stderr, killed };
+}
+
+/**
+ * Find `command` on the PATH of `env`, as the OS would when spawning it.
+ * Returns null if it can't be found.
+ */
+export function findExecutable(command: string, env: NodeJS.ProcessEnv): string | null {
+   if (isAbsolute(command) || command.includes("/") || command.includes("\\")) {
+      return existsSync(command) ? command : null;
+   }
+
+   const extensions = process.platform === "win32"
+      ? ["", ...(env.PATHEXT ?? ".EXE;.CMD;.BAT").split(";")]
+      : [""];
+   for (const dir of (env.PATH ?? env.Path ?? "").split(delimiter)) {
+      if (!dir) {
+         continue;
+      }
+      for (const extension of extensions) {
+         const candidate = join(dir, command + extension);
+         if (existsSync(candidate)) {
+            return candidate;
+         }
+      }
+   }
+   return null;
+}
@@ -1,21 +1,41 @@
 import * as vscode from "vscode";
 
-import { Forest, cleanupServer, getForest, onForestChange, initForestMonitoring, getTree, initStatusBar, getForestStatus } from "./get-forest";
-import { getRoot, getAvailableTemplates } from "./utils";
-import { transcludeNewTree, renameTreeCommand, newTree } from "./edit-forest";
+import { Forest, cleanupServer, getForest, getForeignForest, onForestChange, initForestMonitoring, getTree, initStatusBar, getForestStatus, cancelForestQuery } from "./get-forest";
+import { getRoot, getAvailableTemplates, getForestRoots } from "./utils";
+import { transcludeNewTree, renameTreeCommand, newTree, createTreeWithId, extractToNewTree, inlineTransclusion } from "./edit-forest";
 import { ForesterWebviewProvider } from "./forestStructureView";
 import { TranscludeDecorationProvider } from "./transclude-decorations";
-
-function suggest(trees: Forest, range: vscode.Range) {
+import { initForestDiagnostics } from "./forest-diagnostics";
+import { initForestSnapshots } from "./forest-snapshot";
+import { getOutputChannel, initOutputChannel, showOutputChannel } from "./output-channel";
+import { ForesterTaskProvider } from "./tasks";
+import { getServedRoots, startLanguageClient, stopLanguageClient, stopLanguageClients } from "./language-client";
+import { ForestHealthPanel } from "./forest-health";
+import { testForesterSetup } from "./forester-version";
+import { ForesterPreviewPanel } from "./preview-panel";
+import { ForesterReferenceProvider } from "./tree-references";
+import { ForesterRenameProvider } from "./tree-rename";
+import { ForesterDocumentSymbolProvider } from "./document-symbols";
+import { ForesterWorkspaceSymbolProvider } from "./workspace-symbols";
+import { initBrokenReferenceDiagnostics, BrokenReferenceCodeActionProvider } from "./broken-references";
+import { ForesterRefactorCodeActionProvider } from "./refactor-actions";
+import { ForesterFoldingRangeProvider } from "./folding-ranges";
+import { ForesterFormattingProvider } from "./tree-formatter";
+import { ForesterSemanticTokensProvider, SEMANTIC_TOKENS_LEGEND } from "./semantic-tokens";
+import { initMacroIndex, ForesterMacroCompletionProvider, ForesterMacroDefinitionProvider, ForesterMacroHoverProvider } from "./macro-index";
+import { createForesterApi, ForesterApi } from "./api";
+import { FOREIGN_SCHEME, ForeignTreeContentProvider, foreignTreeUri } from "./foreign-forests";
+
+function suggest(trees: Forest, range: vscode.Range, uri: vscode.Uri) {
    var results: vscode.CompletionItem[] = [];
-   const config = vscode.workspace.getConfiguration("forester");
+   const config = vscode.workspace.getConfiguration("forester", uri);
    const showID = config.get("completion.showID") ?? false;
    for (const entry of trees) {
-      let { uri: id, title, taxon } = entry;
+      let { uri: id, title, taxon, foreign } = entry;
       let item = new vscode.CompletionItem(
          {
             label: title === null ? `[${id}]` : showID ? `[${id}] ${title}` : title,
-            description: taxon ?? "",
+            description: foreign ? `${taxon ?? ""} (${foreign})`.trim() : taxon ?? "",
          },
          vscode.CompletionItemKind.Value,
       );
@@ -29,7 +49,19 @@ function suggest(trees: Forest, range: vscode.Range) {
    return results;
 }
 
-export async function activate(context: vscode.ExtensionContext) {
+/**
+ * Per-forest settings are stored on the workspace folder when several forests are open
+ */
+function forestConfigurationTarget(): vscode.ConfigurationTarget {
+   return (vscode.workspace.workspaceFolders?.length ?? 0) > 1
+      ? vscode.ConfigurationTarget.WorkspaceFolder
+      : vscode.ConfigurationTarget.Workspace;
+}
+
+export async function activate(context: vscode.ExtensionContext): Promise<ForesterApi> {
+   // Create the output channel first so every forester invocation gets logged
+   initOutputChannel(context);
+
    // Set context for conditional visibility - extension only activates when Forester files exist
    vscode.commands.executeCommand('setContext', 'workspaceHasForesterFiles', true);
 
@@ -72,10 +104,22 @@ export async function activate(context: vscode.ExtensionContext) {
          "forester.renameTree",
          renameTreeCommand
       ),
+      vscode.commands.registerCommand(
+         "forester.createTreeWithId",
+         createTreeWithId
+      ),
+      vscode.commands.registerCommand(
+         "forester.extractToNewTree",
+         extractToNewTree
+      ),
+      vscode.commands.registerCommand(
+         "forester.inlineTransclusion",
+         inlineTransclusion
+      ),
       vscode.commands.registerCommand(
          "forester.setDefaultPrefix",
          async () => {
-            const config = vscode.workspace.getConfiguration("forester");
+            const config = vscode.workspace.getConfiguration("forester", getRoot());
             const currentPrefix = config.get<string>("defaultPrefix") || "";
 
             const newPrefix = await vscode.window.showInputBox({
@@ -94,7 +138,7 @@ export async function activate(context: vscode.ExtensionContext) {
             });
 
             if (newPrefix) {
-               await config.update("defaultPrefix", newPrefix, vscode.ConfigurationTarget.Workspace);
+               await config.update("defaultPrefix", newPrefix, forestConfigurationTarget());
                vscode.window.showInformationMessage(`Default prefix set to: ${newPrefix}`);
             }
          }
@@ -102,7 +146,7 @@ export async function activate(context: vscode.ExtensionContext) {
       vscode.commands.registerCommand(
          "forester.setDefaultTemplate",
          async () => {
-            const config = vscode.workspace.getConfiguration("forester");
+            const config = vscode.workspace.getConfiguration("forester", getRoot());
             const templates = await getAvailableTemplates();
 
             const newTemplate = await vscode.window.showQuickPick(templates, {
@@ -111,7 +155,7 @@ export async function activate(context: vscode.ExtensionContext) {
             });
 
             if (newTemplate !== undefined) {
-               await config.update("defaultTemplate", newTemplate, vscode.ConfigurationTarget.Workspace);
+               await config.update("defaultTemplate", newTemplate, forestConfigurationTarget());
                vscode.window.showInformationMessage(`Default template set to: ${newTemplate}`);
             }
          }
@@ -160,21 +204,31 @@ export async function activate(context: vscode.ExtensionContext) {
          await vscode.commands.executeCommand('foresterTreeView.focus');
       }),
       vscode.commands.registerCommand('forester.refreshTreeView', () => {
-         getForest({ forceReload: true })
+         getForestRoots().then(roots => roots.forEach(root => getForest({ forceReload: true, showProgress: true, uri: root })));
          webviewProvider.refresh();
       }),
       vscode.commands.registerCommand('forester.collapseAllTreeView', () => {
          webviewProvider.collapseAll();
       }),
+      vscode.commands.registerCommand('forester.showOutput', showOutputChannel),
+      vscode.commands.registerCommand('forester.testSetup', () => testForesterSetup(getRoot())),
+      vscode.commands.registerCommand('forester.showForestHealth', () => ForestHealthPanel.show()),
+      vscode.commands.registerCommand('forester.openPreview', () => ForesterPreviewPanel.show()),
+      vscode.commands.registerCommand('forester.cancelQuery', () => cancelForestQuery()),
+      vscode.tasks.registerTaskProvider(ForesterTaskProvider.type, new ForesterTaskProvider()),
+      vscode.workspace.registerTextDocumentContentProvider(FOREIGN_SCHEME, new ForeignTreeContentProvider()),
       vscode.commands.registerCommand('forester.showForestStatus', async () => {
          // Refresh the forest when status bar is clicked
-         await getForest({ forceReload: true });
+         await getForest({ forceReload: true, showProgress: true });
 
          const status = getForestStatus();
          if (status.valid) {
             vscode.window.showInformationMessage('Forester forest is valid');
          } else {
-            vscode.window.showErrorMessage(`Forester forest error: ${status.error || 'Unknown error'}`);
+            const choice = await vscode.window.showErrorMessage(`Forester forest error: ${status.error || 'Unknown error'}`, 'Show Problems');
+            if (choice === 'Show Problems') {
+               vscode.commands.executeCommand('workbench.actions.view.problems');
+            }
          }
       }),
       // Test helper command: Get active editor info
@@ -194,6 +248,12 @@ export async function activate(context: vscode.ExtensionContext) {
       })
    );
 
+   // Initialize diagnostics before the first query so build errors have somewhere to go
+   initForestDiagnostics(context);
+
+   // Snapshots from the last session are served until the first query lands
+   initForestSnapshots(context);
+
    // Initialize forest monitoring (handles file watching internally)
    initForestMonitoring(context);
 
@@ -204,9 +264,121 @@ export async function activate(context: vscode.ExtensionContext) {
    const transcludeDecorations = new TranscludeDecorationProvider();
    transcludeDecorations.activate(context);
 
+   // Navigation the language server doesn't cover is always built in
+   context.subscriptions.push(
+      vscode.languages.registerReferenceProvider({ scheme: "file", language: "forester" }, new ForesterReferenceProvider()),
+      vscode.languages.registerRenameProvider({ scheme: "file", language: "forester" }, new ForesterRenameProvider()),
+      vscode.languages.registerDocumentSymbolProvider({ scheme: "file", language: "forester" }, new ForesterDocumentSymbolProvider()),
+      vscode.languages.registerFoldingRangeProvider({ scheme: "file", language: "forester" }, new ForesterFoldingRangeProvider()),
+      vscode.languages.registerDocumentFormattingEditProvider({ scheme: "file", language: "forester" }, new ForesterFormattingProvider()),
+      vscode.languages.registerDocumentRangeFormattingEditProvider({ scheme: "file", language: "forester" }, new ForesterFormattingProvider()),
+      vscode.languages.registerWorkspaceSymbolProvider(new ForesterWorkspaceSymbolProvider()),
+      vscode.languages.registerCodeActionsProvider(
+         { scheme: "file", language: "forester" },
+         new BrokenReferenceCodeActionProvider(),
+         { providedCodeActionKinds: BrokenReferenceCodeActionProvider.providedCodeActionKinds },
+      ),
+      vscode.languages.registerCodeActionsProvider(
+         { scheme: "file", language: "forester" },
+         new ForesterRefactorCodeActionProvider(),
+         { providedCodeActionKinds: ForesterRefactorCodeActionProvider.providedCodeActionKinds },
+      ),
+   );
+   initBrokenReferenceDiagnostics(context);
+   initMacroIndex(context);
+
+   // Semantic highlighting of references and macros, redone when trees come and go
+   const semanticTokensProvider = new ForesterSemanticTokensProvider();
+   context.subscriptions.push(
+      vscode.languages.registerDocumentSemanticTokensProvider(
+         { scheme: "file", language: "forester" },
+         semanticTokensProvider,
+         SEMANTIC_TOKENS_LEGEND,
+      ),
+      onForestChange(() => semanticTokensProvider.refresh()),
+   );
+
+   context.subscriptions.push(
+      vscode.workspace.onDidChangeConfiguration(async (event) => {
+         if (event.affectsConfiguration("forester.lsp.enabled")) {
+            const choice = await vscode.window.showInformationMessage(
+               "Reload the window to switch between forester lsp and the built-in language features.",
+               "Reload Window",
+            );
+            if (choice === "Reload Window") {
+               vscode.commands.executeCommand("workbench.action.reloadWindow");
+            }
+         }
+      })
+   );
+
+   // Servers can take a while to start (or to time out); don't hold up activation for them
+   startLanguageFeatures(context).catch(error => {
+      getOutputChannel()?.error(`Failed to start language features: ${error}`);
+   });
+
+   // Other extensions build on the forest through this (see api.ts)
+   return createForesterApi();
+}
+
+// The built-in providers, registered for the documents no language server is serving
+let fallbackProviders: vscode.Disposable | undefined;
+
+/**
+ * Language features come from `forester lsp` where it's enabled and running,
+ * and from the built-in providers everywhere else
+ */
+async function startLanguageFeatures(context: vscode.ExtensionContext) {
+   let forestRoots = await getForestRoots();
+   context.subscriptions.push({ dispose: () => fallbackProviders?.dispose() });
+
+   // Until a server is up the built-in providers serve every forest; they stand back
+   // for a forest as soon as its server has started
+   const serve = (roots: vscode.Uri[]) => Promise.all(roots.map(async root => {
+      if (await startLanguageClient(root)) {
+         updateFallbackProviders(forestRoots);
+      }
+   }));
+
+   context.subscriptions.push(
+      vscode.workspace.onDidChangeWorkspaceFolders(async event => {
+         await Promise.all(event.removed.map(folder => stopLanguageClient(folder.uri)));
+         forestRoots = await getForestRoots();
+         updateFallbackProviders(forestRoots);
+         await serve(forestRoots.filter(root => event.added.some(folder => folder.uri.fsPath === root.fsPath)));
+      })
+   );
+
+   updateFallbackProviders(forestRoots);
+   await serve(forestRoots);
+}
+
+/**
+ * (Re-)register the built-in providers for every forester document outside the
+ * forests served by a language server
+ */
+function updateFallbackProviders(forestRoots: vscode.Uri[]) {
+   const served = getServedRoots();
+   const unserved = forestRoots.filter(root => !served.some(servedRoot => servedRoot.fsPath === root.fsPath));
+
+   fallbackProviders?.dispose();
+   fallbackProviders = served.length === 0
+      ? registerFallbackProviders({ scheme: "file", language: "forester" })
+      : registerFallbackProviders(unserved.map(root => ({
+         scheme: "file",
+         language: "forester",
+         pattern: new vscode.RelativePattern(root, "**/*"),
+      })));
+}
+
+/**
+ * Register the hand-written definition, hover and completion providers.
+ * These are used when `forester lsp` isn't, for the documents in `selector`.
+ */
+function registerFallbackProviders(selector: vscode.DocumentSelector): vscode.Disposable {
    // Register definition provider for navigation
    const definitionProvider = vscode.languages.registerDefinitionProvider(
-      { scheme: "file", language: "forester" },
+      selector,
       {
          async provideDefinition(document, position) {
             // Get the line text
@@ -252,16 +424,21 @@ export async function activate(context: vscode.ExtensionContext) {
             }
 
             // Get the forest
-            let tree = await getTree(treeId);
+            let tree = await getTree(treeId, document.uri);
             if (!tree) {
                // Tree not found
                vscode.window.showInformationMessage(`Tree '${treeId}' not found`);
                return undefined;
             }
 
+            // Foreign trees open read-only, straight from the other forest
+            if (tree.foreign && tree.sourcePath) {
+               return new vscode.Location(foreignTreeUri(tree.sourcePath), new vscode.Position(0, 0));
+            }
+
             // Find the actual file path
             // Trees can be in subdirectories, so we need to search for them
-            const root = getRoot();
+            const root = getRoot(document.uri);
             let treePath = vscode.Uri.joinPath(root, `${treeId}.tree`);
             try {
                // Check if file exists at direct path
@@ -287,11 +464,10 @@ export async function activate(context: vscode.ExtensionContext) {
       },
    );
 
-   context.subscriptions.push(definitionProvider);
 
    // Register hover provider for transcludes with rename action
    const hoverProvider = vscode.languages.registerHoverProvider(
-      { scheme: "file", language: "forester" },
+      selector,
       {
          async provideHover(document, position) {
             const line = document.lineAt(position.line).text;
@@ -318,7 +494,7 @@ export async function activate(context: vscode.ExtensionContext) {
             }
 
             // Get the forest
-            let tree = await getTree(targetTreeId);
+            let tree = await getTree(targetTreeId, document.uri);
             if (!tree) {
                // Tree not found
                vscode.window.showInformationMessage(`Tree '${targetTreeId}' not found`);
@@ -338,6 +514,12 @@ export async function activate(context: vscode.ExtensionContext) {
 
             // contents.appendMarkdown(`ID: \`${targetTreeId}\`\n\n`);
 
+            // Foreign trees belong to another forest and can't be renamed from here
+            if (tree.foreign) {
+               contents.appendMarkdown(`_Foreign tree from \`${tree.foreign}\`_`);
+               return new vscode.Hover(contents);
+            }
+
             // Add action links
             const renameCommand = `command:forester.renameTree?${encodeURIComponent(JSON.stringify([targetTreeId]))}`;
             contents.appendMarkdown(`[Rename](${renameCommand} "Rename this tree")`);
@@ -347,11 +529,11 @@ export async function activate(context: vscode.ExtensionContext) {
       }
    );
 
-   context.subscriptions.push(hoverProvider);
-
-   context.subscriptions.push(
+   return vscode.Disposable.from(
+      definitionProvider,
+      hoverProvider,
       vscode.languages.registerCompletionItemProvider(
-         { scheme: "file", language: "forester" },
+         selector,
          {
             async provideCompletionItems(doc, pos) {
                // see if we should complete
@@ -378,9 +560,10 @@ export async function activate(context: vscode.ExtensionContext) {
                   pos,
                );
 
-               const forest = await getForest({ fastReturnStale: true });
+               const forest = await getForest({ fastReturnStale: true, uri: doc.uri });
+               const foreign = await getForeignForest(doc.uri);
 
-               return suggest(forest, range);
+               return suggest([...forest, ...foreign], range, doc.uri);
             },
             // resolveCompletionItem, we can extend the CompletionItem class to inject more information
          },
@@ -388,6 +571,10 @@ export async function activate(context: vscode.ExtensionContext) {
          "(",
          "[",
       ),
+      // \name: the macros in scope from the tree's imports and exports, and where they're defined
+      vscode.languages.registerCompletionItemProvider(selector, new ForesterMacroCompletionProvider(), "\\"),
+      vscode.languages.registerDefinitionProvider(selector, new ForesterMacroDefinitionProvider()),
+      vscode.languages.registerHoverProvider(selector, new ForesterMacroHoverProvider()),
    );
 }
 
@@ -395,4 +582,6 @@ export async function activate(context: vscode.ExtensionContext) {
 export function deactivate() {
    // Clean up server resources
    cleanupServer();
+
+   return stopLanguageClients();
 }
@@ -0,0 +1,133 @@
+/**
+ * folding-ranges.ts - Folding for .tree files
+ *
+ * Folds the arguments of commands (`\subtree[..]{...}`, `\ul{...}`, `\p{...}`
+ * and so on), `#{...}`/`##{...}` math, `\startverb ... \stopverb` blocks, runs
+ * of `%` comment lines and the metadata header. Braces are matched on the
+ * source with comments and verbatim blocks blanked out, so braces inside those
+ * don't throw folding off.
+ */
+
+import * as vscode from 'vscode';
+import { maskInactiveRegions, METADATA_COMMANDS, readBracedArgument } from './tree-parser';
+
+// Commands that make up a tree's header
+const HEADER_COMMANDS = new RegExp(`^\\\\(${[...METADATA_COMMANDS, 'import', 'export'].join('|')})\\b`);
+
+/**
+ * A fold, by line number
+ */
+export interface TreeFold {
+   start: number;
+   end: number;
+   kind?: 'comment' | 'region';
+}
+
+/**
+ * Every fold in the source `text` of a tree
+ */
+export function findFolds(text: string): TreeFold[] {
+   const source = maskInactiveRegions(text);
+   const lines = text.split(/\r?\n/);
+   const folds: TreeFold[] = [];
+
+   // Offset at which each line starts
+   const lineStarts = [0];
+   for (let offset = text.indexOf('\n'); offset >= 0; offset = text.indexOf('\n', offset + 1)) {
+      lineStarts.push(offset + 1);
+   }
+   const lineAt = (offset: number) => {
+      let low = 0;
+      let high = lineStarts.length - 1;
+      while (low < high) {
+         const middle = Math.ceil((low + high) / 2);
+         if (lineStarts[middle] <= offset) {
+            low = middle;
+         } else {
+            high = middle - 1;
+         }
+      }
+      return low;
+   };
+
+   /** Fold from the line of `start` to the line of `end`, leaving a closing line visible */
+   const fold = (start: number, end: number, closing: string) => {
+      const startLine = lineAt(start);
+      let endLine = lineAt(end);
+      if (lines[endLine].trimStart().startsWith(closing)) {
+         endLine--;
+      }
+      if (endLine > startLine) {
+         folds.push({ start: startLine, end: endLine });
+      }
+   };
+
+   // \command[..]{...} and #{...}, ##{...}
+   const openerPattern = /\\[A-Za-z][\w/-]*((?:\[[^\]\n]*\])*)\{|##?\{/g;
+   let match;
+   while ((match = openerPattern.exec(source)) !== null) {
+      // `\\{` is an escaped brace, not an argument
+      if (source[match.index - 1] === '\\') {
+         continue;
+      }
+
+      const open = match.index + match[0].length - 1;
+      const argument = readBracedArgument(source, open);
+      if (argument) {
+         fold(match.index, argument.end - 1, '}');
+      }
+
+      // Nested arguments get their own folds
+      openerPattern.lastIndex = open + 1;
+   }
+
+   // \startverb ... \stopverb (blanked out in `source`, so found in the text)
+   const verbatimPattern = /\\startverb[\s\S]*?\\stopverb/g;
+   while ((match = verbatimPattern.exec(text)) !== null) {
+      fold(match.index, match.index + match[0].length - '\\stopverb'.length, '\\stopverb');
+   }
+
+   // Runs of comment lines
+   let commentStart = -1;
+   for (let line = 0; line <= lines.length; line++) {
+      const isComment = line < lines.length && /^\s*%/.test(lines[line]);
+      if (isComment && commentStart < 0) {
+         commentStart = line;
+      } else if (!isComment && commentStart >= 0) {
+         if (line - 1 > commentStart) {
+            folds.push({ start: commentStart, end: line - 1, kind: 'comment' });
+         }
+         commentStart = -1;
+      }
+   }
+
+   // The metadata header: the run of metadata lines (and blank lines between them) at the top
+   let headerStart = -1;
+   let headerEnd = -1;
+   for (let line = 0; line < lines.length; line++) {
+      const lineText = lines[line].trim();
+      if (HEADER_COMMANDS.test(lineText)) {
+         if (headerStart < 0) {
+            headerStart = line;
+         }
+         headerEnd = line;
+      } else if (lineText && !lineText.startsWith('%')) {
+         break;
+      }
+   }
+   if (headerEnd > headerStart) {
+      folds.push({ start: headerStart, end: headerEnd, kind: 'region' });
+   }
+
+   return folds;
+}
+
+export class ForesterFoldingRangeProvider implements vscode.FoldingRangeProvider {
+   public provideFoldingRanges(document: vscode.TextDocument): vscode.FoldingRange[] {
+      return findFolds(document.getText()).map(({ start, end, kind }) => new vscode.FoldingRange(
+         start,
+         end,
+         kind === 'comment' ? vscode.FoldingRangeKind.Comment : kind === 'region' ? vscode.FoldingRangeKind.Region : undefined,
+      ));
+   }
+}
@@ -0,0 +1,103 @@
+/**
+ * foreign-forests.ts - Trees imported from the foreign forests in forest.toml
+ *
+ * Foreign forests are loaded with their own `forester query all`, falling back
+ * to their built `output/forest.json`. Their trees are marked with `foreign`
+ * and opened through a read-only document scheme, since they belong to
+ * another forest and shouldn't be edited from this one.
+ */
+
+import * as vscode from "vscode";
+import * as util from "util";
+import * as childProcess from "child_process";
+import { readFile } from "fs/promises";
+import { isAbsolute, join } from "path";
+import { getForestConfig } from "./utils";
+import { logInvocation, logResult } from "./output-channel";
+import { getForesterVersion, getQueryAdapter } from "./forester-version";
+import { resolveInvocation, getForestDirectory, failedRunOutput } from "./execution-profile";
+import type { Forest, ForesterTree } from "./get-forest";
+
+const execFile = util.promisify(childProcess.execFile);
+
+export const FOREIGN_SCHEME = "forester-foreign";
+
+/**
+ * Read-only view of foreign tree sources
+ */
+export class ForeignTreeContentProvider implements vscode.TextDocumentContentProvider {
+   public async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+      return readFile(uri.fsPath, "utf-8");
+   }
+}
+
+/**
+ * The read-only uri under which a foreign tree's source is opened
+ */
+export function foreignTreeUri(sourcePath: string): vscode.Uri {
+   return vscode.Uri.file(sourcePath).with({ scheme: FOREIGN_SCHEME });
+}
+
+/**
+ * Load the trees of every foreign forest declared in the forest.toml at `root`
+ */
+export async function loadForeignForests(root: vscode.Uri): Promise<Forest> {
+   let foreign;
+   try {
+      foreign = (await getForestConfig(root))?.forest?.foreign ?? [];
+   } catch {
+      return [];
+   }
+
+   const forests = await Promise.all(foreign.map(async ({ path }) => {
+      const foreignRoot = isAbsolute(path) ? path : join(getForestDirectory(root), path);
+      const trees = await queryForeignForest(foreignRoot, root) ?? await readForeignBuild(foreignRoot);
+      if (!trees) {
+         vscode.window.showWarningMessage(`Forester: could not load foreign forest '${path}'`);
+         return [];
+      }
+      return trees.map((tree): ForesterTree => ({
+         ...tree,
+         // Older query formats give paths relative to the foreign forest
+         sourcePath: tree.sourcePath && !isAbsolute(tree.sourcePath) ? join(foreignRoot, tree.sourcePath) : tree.sourcePath,
+         foreign: path,
+      }));
+   }));
+
+   return forests.flat();
+}
+
+/**
+ * Run `forester query all` in the foreign forest (with its own config)
+ */
+async function queryForeignForest(foreignRoot: string, root: vscode.Uri): Promise<Forest | null> {
+   const adapter = getQueryAdapter(await getForesterVersion(root, foreignRoot));
+   // Completion, hovers and diagnostics wait on this, so it gets the same limit as the forest's own query
+   const timeoutMs = vscode.workspace.getConfiguration("forester", root).get<number>("query.timeoutMs") || 30000;
+
+   const { command, args, env, extraEnv } = resolveInvocation(root, ["query", "all"], foreignRoot);
+   logInvocation(command, args, foreignRoot, extraEnv);
+   try {
+      const { stdout, stderr } = await execFile(command, args, { cwd: foreignRoot, env, windowsHide: true, maxBuffer: 64 * 1024 * 1024, timeout: timeoutMs });
+      logResult(`foreign query all finished (${foreignRoot})`, { stdout, stderr });
+
+      return adapter.parse(JSON.parse(stdout));
+   } catch (error: unknown) {
+      const { stdout, stderr, killed } = failedRunOutput(error);
+      const reason = killed ? `timed out after ${timeoutMs / 1000}s` : `${error}`;
+      logResult(`foreign query all failed (${foreignRoot}): ${reason}`, { stdout, stderr, failed: true });
+      return null;
+   }
+}
+
+/**
+ * Read the foreign forest's last build output
+ */
+async function readForeignBuild(foreignRoot: string): Promise<Forest | null> {
+   try {
+      const data = JSON.parse(await readFile(join(foreignRoot, "output", "forest.json"), "utf-8"));
+      return Array.isArray(data) ? data : null;
+   } catch {
+      return null;
+   }
+}
@@ -0,0 +1,254 @@
+/**
+ * forest-diagnostics.ts - Surfaces forester build errors in the Problems panel
+ *
+ * Forester reports errors through asai, which prints blocks like:
+ *
+ *    ￫ error[Reporter.Message.Tree_not_found]
+ *    ꭍ ○ when expanding transclusions
+ *    ■ trees/jms-0001.tree
+ *    5 | \transclude{jms-9999}
+ *      ^ Could not find tree jms-9999
+ *
+ * This module parses that output (plus the plainer `file:line:col` forms) into
+ * diagnostics attached to the offending files.
+ */
+
+import * as vscode from "vscode";
+import { isAbsolute, join } from "path";
+
+export interface ForesterError {
+   /** Absolute path of the file the error points at, if forester named one */
+   file?: string;
+   range: vscode.Range;
+   severity: vscode.DiagnosticSeverity;
+   code?: string;
+   message: string;
+}
+
+let diagnosticCollection: vscode.DiagnosticCollection | null = null;
+
+// Files with diagnostics, per forest root, so one forest's build doesn't clear another's errors
+const reportedFiles = new Map<string, vscode.Uri[]>();
+
+/**
+ * Create the diagnostic collection used for forester build errors
+ */
+export function initForestDiagnostics(context: vscode.ExtensionContext) {
+   if (!diagnosticCollection) {
+      diagnosticCollection = vscode.languages.createDiagnosticCollection("forester");
+      context.subscriptions.push(diagnosticCollection);
+   }
+}
+
+const SEVERITIES: { [name: string]: vscode.DiagnosticSeverity } = {
+   'bug': vscode.DiagnosticSeverity.Error,
+   'error': vscode.DiagnosticSeverity.Error,
+   'warning': vscode.DiagnosticSeverity.Warning,
+   'info': vscode.DiagnosticSeverity.Information,
+   'hint': vscode.DiagnosticSeverity.Hint,
+};
+
+// ￫ error[Code] / → warning[Code] / error[Code]: message
+const HEADER_PATTERN = /(?:^|\s)(bug|error|warning|info|hint)\[([^\]]*)\]:?\s*(.*)$/i;
+// ■ path/to/file.tree  or  ■ path/to/file.tree:3:4-3:9
+const SOURCE_PATTERN = /^\s*■\s+(.+?)\s*$/;
+// path/to/file.tree:3:4-5:6: message  or  path/to/file.tree:3:4: message
+const INLINE_LOCATION_PATTERN = /^\s*(\S+?\.(?:tree|toml)):(\d+)(?::(\d+))?(?:-(?:(\d+):)?(\d+))?(?::\s*(.*))?$/;
+// File "path/to/file.tree", line 3, characters 4-9:
+const OCAML_LOCATION_PATTERN = /File "([^"]+)", lines? (\d+)(?:-(\d+))?(?:, characters (\d+)-(\d+))?/;
+//  5 | \transclude{jms-9999}
+const GUTTER_PATTERN = /^\s*(\d+)\s+\|/;
+//    ^ Could not find tree jms-9999
+const CARET_PATTERN = /^\s*\^\s*(.*)$/;
+
+/**
+ * Build a range from the 1-based `line:col-line:col` parts of a location
+ */
+function locationRange(startLine: string, startCol?: string, endLine?: string, endCol?: string): vscode.Range {
+   const start = new vscode.Position(Number(startLine) - 1, startCol ? Number(startCol) - 1 : 0);
+   const end = endCol
+      ? new vscode.Position(endLine ? Number(endLine) - 1 : start.line, Number(endCol) - 1)
+      : new vscode.Position(start.line, Number.MAX_SAFE_INTEGER);
+   return new vscode.Range(start, end);
+}
+
+/**
+ * Parse forester's error output into a list of located errors.
+ * Relative paths are resolved against `root`.
+ */
+export function parseForesterErrors(output: string, root: string): ForesterError[] {
+   const errors: ForesterError[] = [];
+   const resolvePath = (file: string) => isAbsolute(file) ? file : join(root, file);
+
+   let current: (ForesterError & { located?: boolean; firstLine?: number; lastLine?: number; context: string[] }) | null = null;
+
+   const finish = () => {
+      if (!current) {
+         return;
+      }
+      // Without an explicit range, fall back to the lines shown in the source excerpt
+      if (!current.located && current.firstLine !== undefined) {
+         current.range = new vscode.Range(current.firstLine, 0, current.lastLine ?? current.firstLine, Number.MAX_SAFE_INTEGER);
+      }
+      if (!current.message) {
+         current.message = current.context.join('\n') || current.code || 'Forester error';
+      }
+      const { located, firstLine, lastLine, context, ...error } = current;
+      errors.push(error);
+      current = null;
+   };
+
+   for (const line of output.split(/\r?\n/)) {
+      const header = HEADER_PATTERN.exec(line);
+      if (header && !INLINE_LOCATION_PATTERN.test(line)) {
+         finish();
+         current = {
+            severity: SEVERITIES[header[1].toLowerCase()],
+            code: header[2] || undefined,
+            message: header[3].trim(),
+            range: new vscode.Range(0, 0, 0, 0),
+            context: [],
+         };
+         continue;
+      }
+
+      const inline = INLINE_LOCATION_PATTERN.exec(line);
+      if (inline) {
+         const [, file, startLine, startCol, endLine, endCol, message] = inline;
+         const range = locationRange(startLine, startCol, endLine, endCol);
+         if (current && !current.file) {
+            current.file = resolvePath(file);
+            current.range = range;
+            current.located = true;
+            if (message) {
+               current.message = current.message || message.trim();
+            }
+         } else {
+            finish();
+            errors.push({
+               file: resolvePath(file),
+               range,
+               severity: vscode.DiagnosticSeverity.Error,
+               message: message?.trim() || 'Forester error',
+            });
+         }
+         continue;
+      }
+
+      if (!current) {
+         continue;
+      }
+
+      const source = SOURCE_PATTERN.exec(line);
+      if (source) {
+         // A second source block belongs to the same error; keep the first location
+         if (!current.file) {
+            const located = INLINE_LOCATION_PATTERN.exec(source[1]);
+            if (located) {
+               const [, file, startLine, startCol, endLine, endCol] = located;
+               current.file = resolvePath(file);
+               current.range = locationRange(startLine, startCol, endLine, endCol);
+               current.located = true;
+            } else {
+               current.file = resolvePath(source[1]);
+            }
+         }
+         continue;
+      }
+
+      const ocaml = OCAML_LOCATION_PATTERN.exec(line);
+      if (ocaml) {
+         const [, file, startLine, endLine, startCol, endCol] = ocaml;
+         if (!current.file) {
+            current.file = resolvePath(file);
+            current.range = new vscode.Range(
+               Number(startLine) - 1, startCol ? Number(startCol) : 0,
+               Number(endLine ?? startLine) - 1, endCol ? Number(endCol) : Number.MAX_SAFE_INTEGER,
+            );
+            current.located = true;
+         }
+         continue;
+      }
+
+      const gutter = GUTTER_PATTERN.exec(line);
+      if (gutter) {
+         const lineNumber = Number(gutter[1]) - 1;
+         if (current.firstLine === undefined) {
+            current.firstLine = lineNumber;
+         }
+         current.lastLine = lineNumber;
+         continue;
+      }
+
+      const caret = CARET_PATTERN.exec(line);
+      if (caret) {
+         if (caret[1]) {
+            current.message = current.message ? `${current.message}\n${caret[1]}` : caret[1];
+         }
+         continue;
+      }
+
+      // Anything else (e.g. "ꭍ ○ when expanding transclusions") is context for the message
+      const text = line.replace(/^[\sꭍ○]+/, '').trim();
+      if (text) {
+         current.context.push(text);
+      }
+   }
+   finish();
+
+   return errors;
+}
+
+/**
+ * Replace the current forester diagnostics with the errors found in `output`.
+ * Errors that forester doesn't attach to a file are reported on `fallbackFile`.
+ */
+export function reportForestErrors(output: string, root: string, fallbackFile: string) {
+   if (!diagnosticCollection) {
+      return;
+   }
+
+   const byFile = new Map<string, vscode.Diagnostic[]>();
+   let errors = parseForesterErrors(output, root);
+
+   // If nothing in the output was recognisable, still surface it somewhere
+   if (errors.length === 0 && output.trim()) {
+      errors = [{
+         range: new vscode.Range(0, 0, 0, 0),
+         severity: vscode.DiagnosticSeverity.Error,
+         message: output.trim(),
+      }];
+   }
+
+   for (const error of errors) {
+      const file = error.file ?? fallbackFile;
+      const diagnostic = new vscode.Diagnostic(error.range, error.message, error.severity);
+      diagnostic.source = "forester";
+      if (error.code) {
+         diagnostic.code = error.code;
+      }
+      if (!byFile.has(file)) {
+         byFile.set(file, []);
+      }
+      byFile.get(file)!.push(diagnostic);
+   }
+
+   clearForestErrors(root);
+   const files: vscode.Uri[] = [];
+   for (const [file, diagnostics] of byFile) {
+      const uri = vscode.Uri.file(file);
+      diagnosticCollection.set(uri, diagnostics);
+      files.push(uri);
+   }
+   reportedFiles.set(root, files);
+}
+
+/**
+ * Remove the build diagnostics of the forest at `root` (called after a successful query)
+ */
+export function clearForestErrors(root: string) {
+   for (const uri of reportedFiles.get(root) ?? []) {
+      diagnosticCollection?.delete(uri);
+   }
+   reportedFiles.delete(root);
+}
@@ -0,0 +1,378 @@
+/**
+ * forest-health.ts - The "Forest Health" dashboard
+ *
+ * A webview summarising the state of a forest: tree counts by taxon and
+ * prefix, orphan trees, broken references, trees missing a title or taxon,
+ * transclusion cycles and the last build error. Every entry links back to the
+ * tree's source.
+ */
+
+import * as vscode from 'vscode';
+import { basename } from 'path';
+import { Forest, ForesterTree, getForest, getForeignForest, getForestStatus, onForestChange } from './get-forest';
+import { isTreeReference, TreeReference } from './tree-parser';
+import { getForestConfig, getRoot } from './utils';
+
+export interface BrokenReference {
+   tree: ForesterTree;
+   reference: TreeReference;
+}
+
+export interface ForestHealth {
+   treeCount: number;
+   byTaxon: { [taxon: string]: number };
+   byPrefix: { [prefix: string]: number };
+   /** Trees nothing else links to (other than the home tree) */
+   orphans: ForesterTree[];
+   brokenReferences: BrokenReference[];
+   missingTitle: ForesterTree[];
+   missingTaxon: ForesterTree[];
+   /** Each cycle is a set of trees that transclude each other */
+   cycles: ForesterTree[][];
+}
+
+const NONE = '(none)';
+
+/**
+ * Prefix of a tree ID, e.g. `jms` for `jms-0001`
+ */
+function treePrefix(treeId: string): string {
+   const dash = treeId.lastIndexOf('-');
+   return dash > 0 ? treeId.slice(0, dash) : NONE;
+}
+
+function count(counts: { [key: string]: number }, key: string) {
+   counts[key] = (counts[key] ?? 0) + 1;
+}
+
+/**
+ * Work out the health of `forest`.
+ * @param knownIds - IDs that references may point to besides the forest's own trees (foreign trees)
+ * @param home - ID of the forest's home tree, which isn't an orphan
+ */
+export function analyzeForestHealth(forest: Forest, knownIds: Set<string>, home: string): ForestHealth {
+   const trees = new Map(forest.map(tree => [tree.uri, tree]));
+   const referenced = new Set<string>();
+
+   const health: ForestHealth = {
+      treeCount: forest.length,
+      byTaxon: {},
+      byPrefix: {},
+      orphans: [],
+      brokenReferences: [],
+      missingTitle: [],
+      missingTaxon: [],
+      cycles: [],
+   };
+
+   for (const tree of forest) {
+      count(health.byTaxon, tree.taxon ?? NONE);
+      count(health.byPrefix, treePrefix(tree.uri));
+      if (!tree.title) {
+         health.missingTitle.push(tree);
+      }
+      if (!tree.taxon) {
+         health.missingTaxon.push(tree);
+      }
+
+      for (const reference of (tree.references ?? []).filter(isTreeReference)) {
+         if (reference.treeId !== tree.uri) {
+            referenced.add(reference.treeId);
+         }
+         if (!trees.has(reference.treeId) && !knownIds.has(reference.treeId)) {
+            health.brokenReferences.push({ tree, reference });
+         }
+      }
+   }
+
+   health.orphans = forest.filter(tree => tree.uri !== home && !referenced.has(tree.uri));
+   health.cycles = findTransclusionCycles(forest, trees);
+
+   return health;
+}
+
+/**
+ * Strongly connected components of the transclusion graph that contain a cycle (Tarjan's algorithm)
+ */
+function findTransclusionCycles(forest: Forest, trees: Map<string, ForesterTree>): ForesterTree[][] {
+   const transcludes = (tree: ForesterTree) => (tree.references ?? [])
+      .filter(reference => reference.type === 'transclude' && trees.has(reference.treeId))
+      .map(reference => reference.treeId);
+
+   const index = new Map<string, number>();
+   const lowLink = new Map<string, number>();
+   const stack: string[] = [];
+   const onStack = new Set<string>();
+   const cycles: ForesterTree[][] = [];
+
+   const visit = (treeId: string) => {
+      index.set(treeId, index.size);
+      lowLink.set(treeId, index.get(treeId)!);
+      stack.push(treeId);
+      onStack.add(treeId);
+
+      const children = transcludes(trees.get(treeId)!);
+      for (const childId of children) {
+         if (!index.has(childId)) {
+            visit(childId);
+            lowLink.set(treeId, Math.min(lowLink.get(treeId)!, lowLink.get(childId)!));
+         } else if (onStack.has(childId)) {
+            lowLink.set(treeId, Math.min(lowLink.get(treeId)!, index.get(childId)!));
+         }
+      }
+
+      if (lowLink.get(treeId) === index.get(treeId)) {
+         const component: string[] = [];
+         let member: string;
+         do {
+            member = stack.pop()!;
+            onStack.delete(member);
+            component.push(member);
+         } while (member !== treeId);
+
+         // A single tree is only a cycle if it transcludes itself
+         if (component.length > 1 || children.includes(treeId)) {
+            cycles.push(component.reverse().map(id => trees.get(id)!));
+         }
+      }
+   };
+
+   for (const tree of forest) {
+      if (!index.has(tree.uri)) {
+         visit(tree.uri);
+      }
+   }
+   return cycles;
+}
+
+function escapeHtml(text: string): string {
+   return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+}
+
+export class ForestHealthPanel {
+   public static readonly viewType = 'foresterForestHealth';
+   private static current: ForestHealthPanel | undefined;
+
+   private disposables: vscode.Disposable[] = [];
+
+   /**
+    * Show the dashboard for the forest that owns `uri` (the active editor's forest by default)
+    */
+   public static show(uri?: vscode.Uri) {
+      const root = getRoot(uri);
+      if (ForestHealthPanel.current) {
+         ForestHealthPanel.current.root = root;
+         ForestHealthPanel.current.panel.reveal();
+         ForestHealthPanel.current.refresh();
+         return;
+      }
+
+      const panel = vscode.window.createWebviewPanel(
+         ForestHealthPanel.viewType,
+         'Forest Health',
+         vscode.ViewColumn.Active,
+         { enableScripts: true, retainContextWhenHidden: true }
+      );
+      ForestHealthPanel.current = new ForestHealthPanel(panel, root);
+   }
+
+   private constructor(private readonly panel: vscode.WebviewPanel, private root: vscode.Uri) {
+      this.panel.webview.html = this.getHtml();
+
+      this.disposables.push(
+         this.panel.onDidDispose(() => this.dispose()),
+         this.panel.webview.onDidReceiveMessage(data => {
+            if (data.type === 'ready') {
+               this.refresh();
+            } else if (data.type === 'openFile') {
+               this.openFile(data.path, data.offset);
+            }
+         }),
+         onForestChange(() => this.refresh()),
+      );
+   }
+
+   public async refresh() {
+      const forest = await getForest({ uri: this.root, fastReturnStale: true });
+      const foreign = await getForeignForest(this.root);
+
+      let home = 'index';
+      try {
+         home = (await getForestConfig(this.root))?.forest?.home ?? home;
+      } catch {
+         // unreadable config, assume the default home tree
+      }
+
+      const health = analyzeForestHealth(forest, new Set(foreign.map(tree => tree.uri)), home);
+      this.panel.title = `Forest Health (${basename(this.root.fsPath)})`;
+      // Re-render in place, so the dashboard keeps its scroll position as the forest changes
+      this.panel.webview.postMessage({ type: 'update', html: this.renderHealth(health) });
+   }
+
+   private async openFile(path: string, offset?: number) {
+      if (!path) {
+         return;
+      }
+      const document = await vscode.workspace.openTextDocument(vscode.Uri.file(path));
+      const position = document.positionAt(offset ?? 0);
+      await vscode.window.showTextDocument(document, {
+         viewColumn: vscode.ViewColumn.Beside,
+         selection: new vscode.Range(position, position),
+      });
+   }
+
+   private renderHealth(health: ForestHealth): string {
+      const treeLink = (tree: ForesterTree, offset?: number, label?: string) =>
+         `<a href="#" class="tree-link" data-path="${escapeHtml(tree.sourcePath ?? '')}" data-offset="${offset ?? 0}">`
+         + `${escapeHtml(label ?? (tree.title ? `${tree.title} [${tree.uri}]` : tree.uri))}</a>`;
+
+      const countTable = (counts: { [key: string]: number }) => {
+         const rows = Object.entries(counts)
+            .sort(([, a], [, b]) => b - a)
+            .map(([key, value]) => `<tr><td>${escapeHtml(key)}</td><td class="count">${value}</td></tr>`);
+         return `<table>${rows.join('')}</table>`;
+      };
+
+      const section = (title: string, items: string[], emptyText: string) => `
+         <section>
+            <h2>${title} <span class="badge">${items.length}</span></h2>
+            ${items.length === 0 ? `<p class="empty">${emptyText}</p>` : `<ul>${items.map(item => `<li>${item}</li>`).join('')}</ul>`}
+         </section>
+      `;
+
+      const status = getForestStatus(this.root);
+      const buildError = status.valid
+         ? '<p class="empty">The last query succeeded.</p>'
+         : `<pre class="error">${escapeHtml(status.error ?? 'Unknown error')}</pre>`;
+
+      return `
+         <h1>${health.treeCount} trees</h1>
+         <section>
+            <h2>Last build error</h2>
+            ${buildError}
+         </section>
+         <div class="columns">
+            <section><h2>By taxon</h2>${countTable(health.byTaxon)}</section>
+            <section><h2>By prefix</h2>${countTable(health.byPrefix)}</section>
+         </div>
+         ${section('Broken references', health.brokenReferences.map(({ tree, reference }) =>
+            `<code>\\${reference.type}{${escapeHtml(reference.treeId)}}</code> in ${treeLink(tree, reference.start)}`), 'No broken references.')}
+         ${section('Transclusion cycles', health.cycles.map(cycle =>
+            [...cycle, cycle[0]].map(tree => treeLink(tree, 0, tree.uri)).join(' → ')), 'No cycles.')}
+         ${section('Orphan trees', health.orphans.map(tree => treeLink(tree)), 'Every tree is linked from somewhere.')}
+         ${section('Missing title', health.missingTitle.map(tree => treeLink(tree)), 'Every tree has a title.')}
+         ${section('Missing taxon', health.missingTaxon.map(tree => treeLink(tree)), 'Every tree has a taxon.')}
+      `;
+   }
+
+   private getHtml(): string {
+      return `<!DOCTYPE html>
+         <html lang="en">
+         <head>
+            <meta charset="UTF-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>Forest Health</title>
+            <style>
+               body {
+                  font-family: var(--vscode-font-family);
+                  font-size: var(--vscode-font-size);
+                  color: var(--vscode-foreground);
+                  padding: 0 16px 16px;
+               }
+
+               h2 {
+                  font-size: 1.1em;
+                  border-bottom: 1px solid var(--vscode-panel-border);
+                  padding-bottom: 4px;
+               }
+
+               .badge {
+                  font-size: 0.85em;
+                  padding: 0 6px;
+                  border-radius: 8px;
+                  background-color: var(--vscode-badge-background);
+                  color: var(--vscode-badge-foreground);
+               }
+
+               .columns {
+                  display: flex;
+                  gap: 32px;
+               }
+
+               .columns section {
+                  flex: 1;
+               }
+
+               td.count {
+                  text-align: right;
+                  padding-left: 16px;
+               }
+
+               ul {
+                  padding-left: 20px;
+               }
+
+               a.tree-link {
+                  color: var(--vscode-textLink-foreground);
+                  text-decoration: none;
+               }
+
+               a.tree-link:hover {
+                  text-decoration: underline;
+               }
+
+               .empty {
+                  color: var(--vscode-descriptionForeground);
+                  font-style: italic;
+               }
+
+               pre.error {
+                  white-space: pre-wrap;
+                  color: var(--vscode-errorForeground);
+               }
+            </style>
+         </head>
+         <body>
+            <div id="health"><p class="empty">Loading forest…</p></div>
+            <script>
+               const vscode = acquireVsCodeApi();
+               const container = document.getElementById('health');
+
+               window.addEventListener('message', event => {
+                  const message = event.data;
+                  if (message.type === 'update') {
+                     container.innerHTML = message.html;
+                  }
+               });
+
+               container.addEventListener('click', (e) => {
+                  const link = e.target.closest('.tree-link');
+                  if (!link) {
+                     return;
+                  }
+                  e.preventDefault();
+                  vscode.postMessage({
+                     type: 'openFile',
+                     path: link.getAttribute('data-path'),
+                     offset: parseInt(link.getAttribute('data-offset') || '0'),
+                  });
+               });
+
+               // Updates posted before this script ran were lost, so ask for the first render now
+               vscode.postMessage({ type: 'ready' });
+            </script>
+         </body>
+         </html>`;
+   }
+
+   public dispose() {
+      ForestHealthPanel.current = undefined;
+      this.disposables.forEach(d => d.dispose());
+      this.disposables = [];
+      this.panel.dispose();
+   }
+}
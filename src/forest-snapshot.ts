@@ -0,0 +1,105 @@
+/**
+ * forest-snapshot.ts - Keeps the last good forest on disk between sessions
+ *
+ * Every successful `forester query all` is written to the extension's storage,
+ * keyed by forest root and config file. On startup the snapshot is served
+ * straight away (marked stale) so completion and decorations work while the
+ * first query is still running.
+ */
+
+import * as vscode from "vscode";
+import { createHash } from "crypto";
+import type { Forest } from "./get-forest";
+import { getOutputChannel } from "./output-channel";
+
+// Bump when the stored shape changes; older snapshots are ignored
+const SNAPSHOT_VERSION = 1;
+
+interface ForestSnapshot {
+   version: number;
+   root: string;
+   config: string;
+   savedAt: number;
+   forest: Forest;
+}
+
+let storageUri: vscode.Uri | null = null;
+
+/**
+ * Pick the directory snapshots are stored in
+ */
+export function initForestSnapshots(context: vscode.ExtensionContext) {
+   storageUri = vscode.Uri.joinPath(context.storageUri ?? context.globalStorageUri, "snapshots");
+}
+
+function snapshotUri(root: vscode.Uri, config: string): vscode.Uri | null {
+   if (!storageUri) {
+      return null;
+   }
+   const key = createHash("sha1").update(`${root.fsPath}\n${config}`).digest("hex");
+   return vscode.Uri.joinPath(storageUri, `${key}.json`);
+}
+
+function configFor(root: vscode.Uri): string {
+   return vscode.workspace.getConfiguration("forester", root).get<string>("config") ?? "";
+}
+
+/**
+ * Write a snapshot of `forest`, the forest of the root `root` with the config file `config`
+ */
+export function serializeForestSnapshot(root: string, config: string, forest: Forest): string {
+   const snapshot: ForestSnapshot = { version: SNAPSHOT_VERSION, root, config, savedAt: Date.now(), forest };
+   return JSON.stringify(snapshot);
+}
+
+/**
+ * The forest in a snapshot, null unless it's one of the current version for `root` and `config`
+ */
+export function parseForestSnapshot(text: string, root: string, config: string): Forest | null {
+   try {
+      const snapshot = JSON.parse(text) as ForestSnapshot;
+      if (snapshot.version !== SNAPSHOT_VERSION || snapshot.root !== root || snapshot.config !== config) {
+         return null;
+      }
+      return Array.isArray(snapshot.forest) ? snapshot.forest : null;
+   } catch {
+      // An unreadable (e.g. half-written) snapshot
+      return null;
+   }
+}
+
+/**
+ * Read the last good forest of `root` (with its current config), if there is one
+ */
+export async function loadForestSnapshot(root: vscode.Uri): Promise<Forest | null> {
+   const config = configFor(root);
+   const uri = snapshotUri(root, config);
+   if (!uri) {
+      return null;
+   }
+
+   try {
+      return parseForestSnapshot(new TextDecoder().decode(await vscode.workspace.fs.readFile(uri)), root.fsPath, config);
+   } catch {
+      // No snapshot yet
+      return null;
+   }
+}
+
+/**
+ * Store `forest` as the last good forest of `root`
+ */
+export async function saveForestSnapshot(root: vscode.Uri, forest: Forest): Promise<void> {
+   const config = configFor(root);
+   const uri = snapshotUri(root, config);
+   if (!uri || !storageUri) {
+      return;
+   }
+
+   try {
+      await vscode.workspace.fs.createDirectory(storageUri);
+      await vscode.workspace.fs.writeFile(uri, new TextEncoder().encode(serializeForestSnapshot(root.fsPath, config, forest)));
+   } catch (error) {
+      getOutputChannel()?.warn(`Failed to save forest snapshot for ${root.fsPath}: ${error}`);
+   }
+}
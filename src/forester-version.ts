@@ -0,0 +1,242 @@
+/**
+ * forester-version.ts - Detects the installed forester and reads its query output
+ *
+ * The shape of `forester query all` has changed between releases: 4.x prints
+ * an object keyed by tree address, 5.x an array of trees with their `uri`,
+ * `route` and `sourcePath`. We ask `forester --version` once per setup
+ * and pick the matching adapter, which turns the output into `ForesterTree`s.
+ * Builds that don't report a version (e.g. from `HEAD`) fall back to guessing
+ * from the shape of the JSON.
+ */
+
+import * as vscode from "vscode";
+import * as util from "util";
+import * as childProcess from "child_process";
+import { logInvocation, logResult, getOutputChannel, showOutputChannel } from "./output-channel";
+import { resolveInvocation, findExecutable, ForesterInvocation, failedRunOutput } from "./execution-profile";
+import type { Forest, ForesterTree } from "./get-forest";
+
+const execFile = util.promisify(childProcess.execFile);
+
+export interface ForesterVersion {
+   /** What `forester --version` printed */
+   raw: string;
+   major: number;
+   minor: number;
+   patch: number;
+}
+
+/**
+ * Turns the parsed JSON of `forester query all` into trees
+ */
+export interface QueryAdapter {
+   name: string;
+   parse(data: unknown): Forest;
+}
+
+// Major versions whose query output we know how to read
+const SUPPORTED_MAJOR_VERSIONS = { min: 4, max: 5 };
+const SUPPORTED_RANGE = `${SUPPORTED_MAJOR_VERSIONS.min}.x – ${SUPPORTED_MAJOR_VERSIONS.max}.x`;
+
+// `forester --version` results, keyed by the full command line (wrapper, path and environment)
+const versions = new Map<string, Promise<ForesterVersion | null>>();
+
+// Versions we've already warned about, so the warning isn't repeated on every query
+const warned = new Set<string>();
+
+/**
+ * Parse the output of `forester --version`, e.g. `5.0` or `forester 4.3.1`
+ */
+export function parseForesterVersion(output: string): ForesterVersion | null {
+   const match = /(\d+)\.(\d+)(?:\.(\d+))?/.exec(output);
+   if (!match) {
+      return null;
+   }
+   return {
+      raw: output.trim(),
+      major: parseInt(match[1]),
+      minor: parseInt(match[2]),
+      patch: parseInt(match[3] ?? "0"),
+   };
+}
+
+/**
+ * The version of the forester used for the forest at `root`, asked for once per command line.
+ * Null if it couldn't be run or didn't print a version number.
+ * @param cwd - Run somewhere other than the forest directory (e.g. a foreign forest)
+ */
+export function getForesterVersion(root: vscode.Uri, cwd?: string): Promise<ForesterVersion | null> {
+   const invocation = resolveInvocation(root, ["--version"], cwd);
+   const key = versionKey(invocation);
+
+   let version = versions.get(key);
+   if (!version) {
+      version = detectVersion(key, invocation);
+      versions.set(key, version);
+   }
+   return version;
+}
+
+function versionKey({ command, args, extraEnv, cwd }: ForesterInvocation): string {
+   return JSON.stringify([command, args, extraEnv, cwd]);
+}
+
+async function detectVersion(key: string, { command, args, cwd, env, extraEnv }: ForesterInvocation): Promise<ForesterVersion | null> {
+   logInvocation(command, args, cwd, extraEnv);
+   try {
+      const { stdout, stderr } = await execFile(command, args, { cwd, env, windowsHide: true, timeout: 10000 });
+      logResult(`forester version: ${stdout.trim() || "unknown"}`, { stderr });
+      return parseForesterVersion(stdout);
+   } catch (error: unknown) {
+      const { stdout, stderr } = failedRunOutput(error);
+      logResult(`forester --version failed: ${error}`, { stdout, stderr, failed: true });
+      // Let a fixed setup be retried on the next query
+      versions.delete(key);
+      return null;
+   }
+}
+
+/**
+ * Check that forester can be run for the forest at `root` with the current
+ * execution profile, and report the binary and version that were found
+ */
+export async function testForesterSetup(root: vscode.Uri) {
+   const invocation = resolveInvocation(root, ["--version"]);
+   const path = vscode.workspace.getConfiguration("forester", root).get<string>("path") || "forester";
+   const wrapped = invocation.command !== path;
+
+   // Inside a wrapper forester is resolved by the wrapper, so all we can check here is the wrapper itself
+   const binary = findExecutable(invocation.command, invocation.env);
+   const description = wrapped
+      ? `${path} via ${[invocation.command, ...invocation.args.slice(0, invocation.args.indexOf(path))].join(" ")}`
+      : binary ?? path;
+   getOutputChannel()?.info(`Testing forester setup: ${description} (resolved to ${binary ?? "nothing"}, cwd: ${invocation.cwd})`);
+
+   const showOutput = (choice: string | undefined) => {
+      if (choice === "Show Output") {
+         showOutputChannel();
+      }
+   };
+
+   if (!binary) {
+      vscode.window.showErrorMessage(
+         `Forester setup: could not find '${invocation.command}' on the PATH VS Code sees. Set forester.path to its full path or use forester.execution.wrapper.`,
+         "Show Output",
+      ).then(showOutput);
+      return;
+   }
+
+   // Ask afresh: the point is to check the setup as it is now
+   versions.delete(versionKey(invocation));
+   const version = await getForesterVersion(root);
+   if (!version) {
+      vscode.window.showErrorMessage(`Forester setup: ${description} did not report a version`, "Show Output").then(showOutput);
+   } else if (!isSupportedVersion(version)) {
+      vscode.window.showWarningMessage(`Forester setup: found ${describeVersion(version)} (${description})`, "Show Output").then(showOutput);
+   } else {
+      vscode.window.showInformationMessage(`Forester setup OK: forester ${version.raw} (${description})`, "Show Output").then(showOutput);
+   }
+}
+
+/**
+ * Whether we know how to read the query output of `version`
+ */
+export function isSupportedVersion(version: ForesterVersion): boolean {
+   return version.major >= SUPPORTED_MAJOR_VERSIONS.min && version.major <= SUPPORTED_MAJOR_VERSIONS.max;
+}
+
+/**
+ * Warn (once per version) when the installed forester is outside the supported range
+ */
+export function checkForesterVersion(version: ForesterVersion | null) {
+   if (!version || isSupportedVersion(version) || warned.has(version.raw)) {
+      return;
+   }
+   warned.add(version.raw);
+
+   const message = `Forester ${version.raw} is not supported by this extension (supported: ${SUPPORTED_RANGE}). Querying the forest may fail.`;
+   getOutputChannel()?.warn(message);
+   vscode.window.showWarningMessage(message);
+}
+
+/**
+ * Describe `version` for error messages
+ */
+export function describeVersion(version: ForesterVersion | null): string {
+   if (!version) {
+      return "an unknown forester version";
+   }
+   return isSupportedVersion(version)
+      ? `forester ${version.raw}`
+      : `forester ${version.raw}, which is outside the supported range ${SUPPORTED_RANGE}`;
+}
+
+/**
+ * Fill in the fields older outputs leave out
+ */
+function normalizeTree(uri: string, entry: Partial<ForesterTree>): ForesterTree {
+   return {
+      uri,
+      title: entry.title ?? null,
+      taxon: entry.taxon ?? null,
+      tags: entry.tags ?? [],
+      route: entry.route ?? `${uri}.xml`,
+      metas: entry.metas ?? {},
+      sourcePath: entry.sourcePath ?? "",
+   };
+}
+
+function isObject(data: unknown): data is { [key: string]: unknown } {
+   return typeof data === "object" && data !== null;
+}
+
+// 4.x: { "jms-0001": { title, taxon, tags, route, metas, sourcePath }, ... }
+const objectFormat: QueryAdapter = {
+   name: "object (forester 4.x)",
+   parse(data) {
+      if (!isObject(data) || Array.isArray(data)) {
+         throw new Error("expected an object keyed by tree address");
+      }
+      return Object.entries(data).map(([id, entry]) => normalizeTree(id, entry as Partial<ForesterTree>));
+   },
+};
+
+// 5.x: [ { uri, title, taxon, tags, route, metas, sourcePath }, ... ]
+const arrayFormat: QueryAdapter = {
+   name: "array (forester 5.x)",
+   parse(data) {
+      if (!Array.isArray(data)) {
+         throw new Error("expected an array of trees");
+      }
+      return data.map((entry: Partial<ForesterTree>) => {
+         if (typeof entry?.uri !== "string") {
+            throw new Error("tree without a uri");
+         }
+         return normalizeTree(entry.uri, entry);
+      });
+   },
+};
+
+// Unknown versions: go by the shape of the output
+const detectedFormat: QueryAdapter = {
+   name: "detected from output",
+   parse(data) {
+      return Array.isArray(data) ? arrayFormat.parse(data) : objectFormat.parse(data);
+   },
+};
+
+/**
+ * Pick the adapter for the query output of `version`
+ */
+export function getQueryAdapter(version: ForesterVersion | null): QueryAdapter {
+   if (!version) {
+      return detectedFormat;
+   }
+   if (version.major <= 4) {
+      return objectFormat;
+   }
+   if (version.major === 5) {
+      return arrayFormat;
+   }
+   return detectedFormat;
+}
@@ -4,15 +4,28 @@
  * This module provides functions to interact with the Forester command-line tool,
  * including querying for trees and executing commands. It also manages caching
  * of query results to avoid redundant calls to the Forester executable.
+ *
+ * Every workspace folder that holds a forest gets its own cache and status, so
+ * all functions take an optional `uri` (any file inside the forest) to pick the
+ * forest; without one, the forest of the active editor is used.
  */
 
 import * as vscode from "vscode";
 import * as util from "util";
 import * as child_process from "child_process";
-import { getRoot } from "./utils";
+import { getRoot, getForestRoots, getTreesDirectories, getConfigFileName } from "./utils";
 import { readFile } from "fs/promises";
-import { join } from "path";
+import { basename, join } from "path";
 import { existsSync } from "fs";
+import { reportForestErrors, clearForestErrors } from "./forest-diagnostics";
+import { parseTreeSource, findTreeReferences, TreeReference } from "./tree-parser";
+import { getOutputChannel, logInvocation, logResult, showOutputChannel } from "./output-channel";
+import { QueryScheduler } from "./query-scheduler";
+import { ChangeBatcher } from "./change-batcher";
+import { loadForeignForests } from "./foreign-forests";
+import { loadForestSnapshot, saveForestSnapshot } from "./forest-snapshot";
+import { resolveInvocation, getForestDirectory } from "./execution-profile";
+import { getForesterVersion, checkForesterVersion, getQueryAdapter, describeVersion } from "./forester-version";
 
 const execFile = util.promisify(child_process.execFile);
 
@@ -22,31 +35,91 @@ export interface ForesterTree {
    taxon: string | null;
    tags: string[];
    route: string;
-   metas: Map<string, string>;
+   metas: { [key: string]: string };
    sourcePath: string;
    uri: string;
+   /** Outgoing references parsed from the source (filled in by the extension, not by forester) */
+   references?: TreeReference[];
+   /** For trees of a foreign forest: its path as given in forest.toml. These trees are read-only. */
+   foreign?: string;
 }
 
 export type Forest = ForesterTree[];
 
-// For managing the global cache flow
-let queryInProgressPromise: Promise<Forest> | null = null;
-let mostRecentQueryResult: Forest | null = null;
-let isInitialLoad = true;
+/** `stale` means the trees come from the snapshot of a previous session and no query has succeeded yet */
+export type ForestStatus = { valid?: boolean; updating?: boolean, error?: string, stale?: boolean };
+
+/**
+ * Options for a single run of `forester query all`
+ */
+interface QueryOptions {
+   /** Show a cancellable progress notification (initial load and explicit reloads) */
+   showProgress: boolean;
+}
+
+/**
+ * Cache and build status for one forest (one workspace folder)
+ */
+interface ForestState {
+   root: vscode.Uri;
+   scheduler: QueryScheduler<Forest, QueryOptions>;
+   mostRecentQueryResult: Forest | null;
+   /** Trees of the foreign forests in forest.toml, loaded once and reloaded when the config changes */
+   foreignTrees: Promise<Forest> | null;
+   isInitialLoad: boolean;
+   status: ForestStatus;
+}
+
+// How long to wait for a burst of file events to settle before re-querying
+const RELOAD_DEBOUNCE_MS = 300;
+
+// How long to collect file system watcher events (e.g. from a git checkout) before indexing them
+const WATCHER_BATCH_MS = 200;
+
+// One entry per forest root, keyed by the root's fsPath
+const forests = new Map<string, ForestState>();
 
-// For tracking the build status of the forest
-let forestStatus: { valid?: boolean; updating?: boolean, error?: string };
 let statusBarItem: vscode.StatusBarItem | null = null;
 
 // File event handlers and callbacks
 let fileEventDisposables: vscode.Disposable[] = [];
+// File system watchers for changes made outside VS Code, per forest root
+const forestWatchers = new Map<string, vscode.Disposable[]>();
 const forestChangeCallbacks = new Set<() => void>();
 
 /**
- * Get the current forest status
+ * Get (creating if needed) the state of the forest that owns `uri`
+ */
+function getForestState(uri?: vscode.Uri): ForestState {
+   const root = getRoot(uri);
+   let state = forests.get(root.fsPath);
+   if (!state) {
+      const forestState: ForestState = {
+         root,
+         scheduler: new QueryScheduler<Forest, QueryOptions>(
+            (token, options) => runQuery(forestState, token, options),
+            () => {
+               // Cancelled by the user: keep whatever we had
+               updateStatus(forestState, { ...forestState.status, updating: false });
+               return forestState.mostRecentQueryResult ?? [];
+            },
+         ),
+         mostRecentQueryResult: null,
+         foreignTrees: null,
+         isInitialLoad: true,
+         status: { valid: true },
+      };
+      state = forestState;
+      forests.set(root.fsPath, state);
+   }
+   return state;
+}
+
+/**
+ * Get the current status of the forest that owns `uri`
  */
-export function getForestStatus() {
-   return forestStatus;
+export function getForestStatus(uri?: vscode.Uri) {
+   return getForestState(uri).status;
 }
 
 /**
@@ -57,63 +130,189 @@ export function initStatusBar(context: vscode.ExtensionContext) {
       statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
       statusBarItem.command = 'forester.showForestStatus';
       context.subscriptions.push(statusBarItem);
+
+      // The status bar follows the forest of the active editor
+      context.subscriptions.push(vscode.window.onDidChangeActiveTextEditor(() => renderStatusBar()));
    }
-   updateStatusBar({ valid: true });
+   renderStatusBar();
 }
 
 /**
- * Update the status bar based on current forest status
+ * Record a new status for a forest and refresh the status bar
  */
-function updateStatusBar(status: typeof forestStatus) {
-   forestStatus = status
+function updateStatus(state: ForestState, status: ForestStatus) {
+   state.status = status;
+   renderStatusBar();
+}
 
+/**
+ * Show the status of the active editor's forest in the status bar
+ */
+function renderStatusBar() {
    if (!statusBarItem) return;
 
+   let state: ForestState;
+   try {
+      state = getForestState();
+   } catch {
+      statusBarItem.hide();
+      return;
+   }
+
+   const forestStatus = state.status;
+   const name = forests.size > 1 ? ` (${basename(state.root.fsPath)})` : '';
+   const staleNote = forestStatus.stale ? "\n\nShowing the forest from the last session until a query succeeds" : "";
+
+   statusBarItem.command = forestStatus.updating ? 'forester.cancelQuery' : 'forester.showForestStatus';
+
    if (forestStatus.updating) {
-      statusBarItem.text = "$(sync~spin) Forest updating...";
-      statusBarItem.tooltip = "Forester is rebuilding";
+      statusBarItem.text = `$(sync~spin) Forest updating...${name}`;
+      statusBarItem.tooltip = "Forester is rebuilding (click to cancel)" + staleNote;
+      statusBarItem.backgroundColor = undefined;
+   } else if (forestStatus.stale && forestStatus.valid) {
+      statusBarItem.text = `$(history) Forest cached${name}`;
+      statusBarItem.tooltip = "Forester has not been queried yet" + staleNote;
       statusBarItem.backgroundColor = undefined;
    } else if (forestStatus.valid) {
-      statusBarItem.text = "$(check) Forest valid";
+      statusBarItem.text = `$(check) Forest valid${name}`;
       statusBarItem.tooltip = "Forester forest is valid";
       statusBarItem.backgroundColor = undefined;
    } else {
-      statusBarItem.text = "$(error) Forest invalid (hover to view error)";
-      statusBarItem.tooltip = `Forester error: ${forestStatus.error || 'Unknown error'}`;
+      statusBarItem.text = `$(error) Forest invalid (hover to view error)${name}`;
+      statusBarItem.tooltip = `Forester error: ${forestStatus.error || 'Unknown error'}` + staleNote;
       statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.errorBackground');
    }
    statusBarItem.show();
 }
 
-export async function getTree(treeId: string): Promise<ForesterTree | null> {
+export async function getTree(treeId: string, uri?: vscode.Uri): Promise<ForesterTree | null> {
+   const state = getForestState(uri);
+
    // if we can find it in our most recent successful query just return (keeps things fast)
-   if (mostRecentQueryResult) {
-      let tree = mostRecentQueryResult.find((entry) => entry.uri === treeId);
+   if (state.mostRecentQueryResult) {
+      let tree = state.mostRecentQueryResult.find((entry) => entry.uri === treeId);
       if (tree) return tree
    }
 
-   const forest = await getForest();
-   return forest.find((entry) => entry.uri === treeId) || null;
+   const forest = await getForest({ uri });
+   const tree = forest.find((entry) => entry.uri === treeId);
+   if (tree) {
+      return tree;
+   }
+
+   // Not one of ours, maybe it comes from a foreign forest
+   const foreignForest = await getForeignForest(uri);
+   return foreignForest.find((entry) => entry.uri === treeId) || null;
+}
+
+/**
+ * Get the trees of the foreign forests declared in the config of the forest that owns `uri`
+ */
+export function getForeignForest(uri?: vscode.Uri): Promise<Forest> {
+   const state = getForestState(uri);
+   if (!state.foreignTrees) {
+      state.foreignTrees = loadForeignForests(state.root).catch((error) => {
+         getOutputChannel()?.error(`Failed to load foreign forests: ${error}`);
+         return [];
+      });
+   }
+   return state.foreignTrees;
 }
 
 // await to return a forest array, handles all the caching logic
-export async function getForest({ forceReload, fastReturnStale }: { forceReload?: boolean, fastReturnStale?: boolean } = {}): Promise<Forest> {
-   // If there's no query in progress (or we don't care that the data might be stale) and we have some then return it (unless we're forcing a reload). A reload is forced whenever a file changes by forestUpdatedOnDisk.
-   if ((!queryInProgressPromise || fastReturnStale) && mostRecentQueryResult && !forceReload) return mostRecentQueryResult
+export async function getForest({ forceReload, fastReturnStale, showProgress, uri }: { forceReload?: boolean, fastReturnStale?: boolean, showProgress?: boolean, uri?: vscode.Uri } = {}): Promise<Forest> {
+   const state = getForestState(uri);
 
-   // If we have a query in progress then return the promise which will resolve to result
-   if (queryInProgressPromise && !forceReload) return queryInProgressPromise
+   // If there's no query pending (or we don't care that the data might be stale) and we have some then return it (unless we're forcing a reload).
+   if ((!state.scheduler.isBusy || fastReturnStale) && state.mostRecentQueryResult && !forceReload) {
+      return state.mostRecentQueryResult;
+   }
 
-   // Show starting notification (only for initial load)
-   if (isInitialLoad) {
-      vscode.window.showInformationMessage("🌲 Forester: Building forest cache...");
+   // If we have a query pending then wait for its result
+   if (state.scheduler.isBusy && !forceReload) {
+      return state.scheduler.wait();
    }
 
-   queryInProgressPromise = queryForest()
+   // Explicit reloads also pick up changes in foreign forests
+   state.foreignTrees = null;
 
-   // setting the global promise and then awaiting means that if there are calls to getForest in the meantime they will await the same promise
-   const result = mostRecentQueryResult = await queryInProgressPromise
+   // Start a query now, superseding any in flight; everyone waiting gets this one's result.
+   // An initial load served from a snapshot doesn't need a progress notification.
+   return state.scheduler.runNow({ showProgress: showProgress || (state.isInitialLoad && !state.mostRecentQueryResult) });
+}
+
+/**
+ * Serve the snapshot from the last session until the first query of `root` lands
+ */
+async function restoreForestSnapshot(root: vscode.Uri) {
+   const state = getForestState(root);
+   if (state.mostRecentQueryResult) {
+      return;
+   }
+
+   const snapshot = await loadForestSnapshot(root);
+   // A query may have landed while we were reading
+   if (!snapshot || state.mostRecentQueryResult) {
+      return;
+   }
 
+   state.mostRecentQueryResult = snapshot;
+   updateStatus(state, { ...state.status, stale: true });
+   notifyForestChange();
+}
+
+/**
+ * Re-query the forest that owns `uri` once a burst of file events has settled
+ */
+export function scheduleForestReload(uri: vscode.Uri): Promise<Forest> {
+   return getForestState(uri).scheduler.schedule(RELOAD_DEBOUNCE_MS, { showProgress: false });
+}
+
+/**
+ * Cancel the pending or running query of the forest that owns `uri`
+ */
+export function cancelForestQuery(uri?: vscode.Uri) {
+   getForestState(uri).scheduler.cancel();
+}
+
+/**
+ * One scheduled query: runs forester and, unless superseded, updates the cache
+ */
+async function runQuery(state: ForestState, token: vscode.CancellationToken, { showProgress }: QueryOptions): Promise<Forest> {
+   const result = showProgress
+      ? await vscode.window.withProgress(
+         {
+            location: vscode.ProgressLocation.Notification,
+            title: state.isInitialLoad ? "🌲 Forester: Building forest cache..." : "🌲 Forester: Rebuilding forest...",
+            cancellable: true,
+         },
+         (_progress, progressToken) => {
+            progressToken.onCancellationRequested(() => state.scheduler.cancel());
+            return queryForest(state, token);
+         },
+      )
+      : await queryForest(state, token);
+
+   // A newer query or the user took over; the scheduler drops this result
+   if (token.isCancellationRequested) {
+      return result;
+   }
+
+   state.mostRecentQueryResult = result;
+   notifyForestChange();
+
+   if (state.isInitialLoad) {
+      vscode.window.setStatusBarMessage(`✅ Forester: Loaded ${result.length} trees`, 5000);
+      state.isInitialLoad = false;
+   }
+
+   return result;
+}
+
+/**
+ * Call every registered forest change callback
+ */
+function notifyForestChange() {
    forestChangeCallbacks.forEach(callback => {
       try {
          callback();
@@ -121,28 +320,91 @@ export async function getForest({ forceReload, fastReturnStale }: { forceReload?
          console.error('Error in forest change callback:', error);
       }
    });
+}
+
+/**
+ * Fill in the outgoing references of every tree by parsing its source
+ */
+async function attachReferences(forest: Forest): Promise<Forest> {
+   await Promise.all(forest.map(async (tree) => {
+      if (!tree.sourcePath) {
+         return;
+      }
+      try {
+         tree.references = findTreeReferences(await readFile(tree.sourcePath, "utf-8"));
+      } catch {
+         tree.references = [];
+      }
+   }));
+   return forest;
+}
 
-   // Show completion notification (only for initial load)
-   if (isInitialLoad) {
-      vscode.window.showInformationMessage(`✅ Forester: Loaded ${result.length} trees`);
-      isInitialLoad = false;
+/**
+ * Re-parse a single tree's source and update its entry in the cached forest.
+ * This makes an edit visible to completion, hovers and decorations straight
+ * away, while the full `forester query all` reconciles in the background.
+ */
+export function updateTreeFromSource(sourcePath: string, text: string) {
+   const state = getForestState(vscode.Uri.file(sourcePath));
+   const { mostRecentQueryResult } = state;
+   if (!mostRecentQueryResult) {
+      return;
    }
 
-   queryInProgressPromise = null
+   const treeId = basename(sourcePath, '.tree');
+   const { references, ...metadata } = parseTreeSource(text);
+
+   const existing = mostRecentQueryResult.find((entry) => entry.sourcePath === sourcePath)
+      ?? mostRecentQueryResult.find((entry) => entry.uri === treeId);
+
+   // Swap in new objects rather than editing the cached ones, which earlier callers may still be holding
+   if (existing) {
+      const updated = { ...existing, ...metadata, references };
+      state.mostRecentQueryResult = mostRecentQueryResult.map((entry) => entry === existing ? updated : entry);
+   } else {
+      // Derive the route from an existing tree so it matches whatever scheme this forester version uses
+      const sibling = mostRecentQueryResult.find((entry) => entry.route?.includes(entry.uri));
+      const route = sibling ? sibling.route.replace(sibling.uri, treeId) : `${treeId}.xml`;
+
+      state.mostRecentQueryResult = [...mostRecentQueryResult, { uri: treeId, sourcePath, route, ...metadata, references }];
+   }
 
-   return mostRecentQueryResult || []
+   notifyForestChange();
 }
 
-// handles actually calling forester
-async function queryForest(): Promise<Forest> {
-   const cwd = getRoot().fsPath;
+/**
+ * Drop a deleted tree from the cached forest
+ */
+export function removeTreeFromIndex(sourcePath: string) {
+   const { mostRecentQueryResult } = getForestState(vscode.Uri.file(sourcePath));
+   if (!mostRecentQueryResult) {
+      return;
+   }
+
+   const index = mostRecentQueryResult.findIndex((entry) => entry.sourcePath === sourcePath);
+   if (index < 0) {
+      return;
+   }
 
-   const config = vscode.workspace.getConfiguration("forester");
-   const path = config.get("path") as string ?? "forester";
+   mostRecentQueryResult.splice(index, 1);
+   notifyForestChange();
+}
+
+// handles actually calling forester
+async function queryForest(state: ForestState, token: vscode.CancellationToken): Promise<Forest> {
+   const config = vscode.workspace.getConfiguration("forester", state.root);
    const configfile = config.get("config") as string;
+   const timeoutMs = config.get<number>("query.timeoutMs") || 30000;
+
+   // The query output format depends on the forester version
+   const version = await getForesterVersion(state.root);
+   checkForesterVersion(version);
+   const adapter = getQueryAdapter(version);
 
-   const args = ["query", "all", ...(configfile ? [configfile] : [])]
-   let forester = child_process.spawn(path, args, { cwd, detached: false, stdio: "pipe", windowsHide: true });
+   const { command, args, cwd, env, extraEnv } = resolveInvocation(state.root, ["query", "all", ...(configfile ? [configfile] : [])]);
+   logInvocation(command, args, cwd, extraEnv);
+   const startTime = Date.now();
+   let forester = child_process.spawn(command, args, { cwd, env, detached: false, stdio: "pipe", windowsHide: true });
 
    let timeoutToken
    let stderr = ""
@@ -150,13 +412,19 @@ async function queryForest(): Promise<Forest> {
    forester.stderr.on("data", (chunk) => { stderr += chunk });
    forester.stdout.on("data", (chunk) => { stdout += chunk });
 
-   updateStatusBar({ updating: true });
+   updateStatus(state, { ...state.status, updating: true });
 
-   const [success, dataOrErrorMessage] = await new Promise<[boolean, { string: Omit<ForesterTree, 'uri'> } | Forest | string]>((resolve) => {
+   let cancellation: vscode.Disposable | undefined;
+   const [success, dataOrErrorMessage] = await new Promise<[boolean, Forest | string]>((resolve) => {
       timeoutToken = setTimeout(() => {
-         resolve([false, 'Forester timed out after 30s'])
+         resolve([false, `Forester timed out after ${timeoutMs / 1000}s`]);
          forester.kill()
-      }, 30000)
+      }, timeoutMs);
+
+      cancellation = token.onCancellationRequested(() => {
+         resolve([false, 'Forester query was cancelled']);
+         forester.kill();
+      });
 
       forester.once('error', (error) => {
          vscode.window.showWarningMessage(`Forester: Critical error - ${error.message}`);
@@ -167,37 +435,60 @@ async function queryForest(): Promise<Forest> {
          if (signal !== null || code !== 0) {
             resolve([false, `Forester: process exited with code ${code} and signal ${signal}.`])
          } else {
+            let data;
             try {
-               const result = JSON.parse(stdout)
-               resolve([true, result])
+               data = JSON.parse(stdout);
             } catch (e) {
-               resolve([false, "Forester didn't return a valid JSON response:\n" + stdout])
+               resolve([false, `Forester (${describeVersion(version)}) didn't return a valid JSON response:\n` + stdout]);
+               return;
+            }
+            try {
+               resolve([true, adapter.parse(data)]);
+            } catch (error: unknown) {
+               const reason = error instanceof Error ? error.message : String(error);
+               resolve([false, `Couldn't read the query output of ${describeVersion(version)} as the ${adapter.name} format: ${reason}`]);
             }
          }
       })
    })
 
    clearTimeout(timeoutToken)
+   cancellation?.dispose();
+
+   if (token.isCancellationRequested) {
+      logResult('query all cancelled', {});
+      return state.mostRecentQueryResult ?? [];
+   }
+
+   logResult(
+      success ? `query all finished in ${Date.now() - startTime}ms` : `query all failed: ${dataOrErrorMessage}`,
+      { stdout, stderr, failed: !success },
+   );
 
    if (success) {
-      updateStatusBar({ valid: true });
-      if (Array.isArray(dataOrErrorMessage)) {
-         return dataOrErrorMessage as Forest // new query format
-      } else {
-         return Object.entries(dataOrErrorMessage).map(([id, entry]) => ({ uri: id, ...entry })) // old query format
-      }
+      updateStatus(state, { valid: true });
+      clearForestErrors(cwd);
+      const forest = await attachReferences(dataOrErrorMessage as Forest);
+
+      // Keep it for the next session's startup
+      saveForestSnapshot(state.root, forest);
+      return forest;
    } else {
       const errorMessage = dataOrErrorMessage + (stdout ? '\n\n' + stdout : '') + (stderr ? '\n\n' + stderr : '')
-      updateStatusBar({ valid: false, error: errorMessage as string });
-
-      console.log(errorMessage)
+      // A failed query doesn't make a snapshot any fresher
+      updateStatus(state, { valid: false, error: errorMessage as string, stale: state.status.stale });
+      reportForestErrors(stderr + '\n' + stdout, cwd, join(cwd, configfile || "forest.toml"));
 
       // if we can't get data via query try and fall back to most recent in-memory success
-      if (mostRecentQueryResult) return mostRecentQueryResult
+      if (state.mostRecentQueryResult) {
+         return state.mostRecentQueryResult;
+      }
 
       // if that doesn't work then see if we can get directly from the most recent successful build
-      const buildData = await getForestFromBuild()
-      if (buildData) return buildData
+      const buildData = await getForestFromBuild(state.root);
+      if (buildData) {
+         return attachReferences(buildData);
+      }
 
       // if that doesn't work then we have no usable forest
       return [];
@@ -213,55 +504,155 @@ export function initForestMonitoring(context: vscode.ExtensionContext) {
    fileEventDisposables.forEach(d => d.dispose());
    fileEventDisposables = [];
 
-   const forestUpdatedOnDisk = async () => {
-      // if the query takes 4s, and we call this a bunch of times in that time
-      // then the first one will create the promise, and then rest will await it
-      // and then when it's done whoever awaited first will re-do it
-      if (queryInProgressPromise) await queryInProgressPromise
+   const isTreeFile = (uri: vscode.Uri) => uri.fsPath.endsWith('.tree');
+   const isConfigFile = (uri: vscode.Uri) => uri.fsPath.endsWith('forest.toml')
+      || (!!vscode.workspace.getWorkspaceFolder(uri) && join(getForestDirectory(getRoot(uri)), getConfigFileName(getRoot(uri))) === uri.fsPath);
+   const isForestFile = (uri: vscode.Uri) => isTreeFile(uri) || isConfigFile(uri);
+
+   // Update the in-memory index from a file on disk (used for events that don't hand us a document)
+   const indexTreeFromDisk = async (uri: vscode.Uri) => {
+      try {
+         updateTreeFromSource(uri.fsPath, await readFile(uri.fsPath, "utf-8"));
+      } catch (error) {
+         getOutputChannel()?.warn(`Failed to index ${uri.fsPath}: ${error}`);
+      }
+   };
+
+   // Initial load of a forest: serve last session's snapshot while the first query runs
+   const loadForest = async (root: vscode.Uri) => {
+      watchForest(root);
+      await restoreForestSnapshot(root);
+      getForest({ forceReload: true, uri: root });
+      // Load the foreign forests up front rather than on first completion or hover
+      getForeignForest(root);
+   };
+
+   // Reload each forest touched by a batch of file events; bursts are coalesced by the scheduler
+   const forestsUpdatedOnDisk = (uris: vscode.Uri[]) => {
+      const roots = new Map<string, vscode.Uri>();
+      for (const uri of uris.filter(isForestFile)) {
+         if (!vscode.workspace.getWorkspaceFolder(uri)) {
+            continue;
+         }
+         roots.set(getRoot(uri).fsPath, uri);
 
-      await getForest({ forceReload: true })
+         // The list of foreign forests (and the trees directories) may have changed
+         if (!isTreeFile(uri)) {
+            getForestState(uri).foreignTrees = null;
+            getForeignForest(uri);
+            watchForest(getRoot(uri));
+         }
+      }
+      roots.forEach(uri => scheduleForestReload(uri));
    }
 
-   // Watch for .tree file changes using workspace events (more reliable than createFileSystemWatcher)
+   // Changes seen by the watchers, indexed a batch at a time
+   const watcherChanges = new ChangeBatcher(WATCHER_BATCH_MS, async (changes) => {
+      changes.filter(change => change.deleted && isTreeFile(change.uri)).forEach(change => removeTreeFromIndex(change.uri.fsPath));
+      await Promise.all(changes.filter(change => !change.deleted && isTreeFile(change.uri)).map(change => indexTreeFromDisk(change.uri)));
+      forestsUpdatedOnDisk(changes.map(change => change.uri));
+   });
+
+   // Watch the trees directories and config of a forest for changes made outside VS Code
+   // (git checkout, scripts, sync). These overlap with the workspace events below for
+   // changes made in VS Code, which is harmless: indexing is idempotent and reloads are coalesced.
+   const watchForest = async (root: vscode.Uri) => {
+      let directories: string[];
+      try {
+         directories = await getTreesDirectories(root);
+      } catch {
+         directories = ["trees"];
+      }
+
+      const forestDirectory = vscode.Uri.file(getForestDirectory(root));
+      const patterns = [
+         ...directories.map(dir => new vscode.RelativePattern(vscode.Uri.joinPath(forestDirectory, dir), "**/*.tree")),
+         new vscode.RelativePattern(forestDirectory, getConfigFileName(root)),
+      ];
+
+      unwatchForest(root);
+      const disposables: vscode.Disposable[] = [];
+      for (const pattern of patterns) {
+         const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+         disposables.push(
+            watcher,
+            watcher.onDidCreate(uri => watcherChanges.queue(uri, false)),
+            watcher.onDidChange(uri => watcherChanges.queue(uri, false)),
+            watcher.onDidDelete(uri => watcherChanges.queue(uri, true)),
+         );
+      }
+      forestWatchers.set(root.fsPath, disposables);
+   };
+
+   // Workspace events for changes made in VS Code (external changes come through the watchers above)
    fileEventDisposables.push(
       // Save events catch changes made in VS Code
       vscode.workspace.onDidSaveTextDocument((doc) => {
-         if (doc.fileName.endsWith('.tree') || doc.fileName.endsWith('forest.toml')) {
-            forestUpdatedOnDisk();
+         if (isTreeFile(doc.uri)) {
+            updateTreeFromSource(doc.fileName, doc.getText());
          }
+         forestsUpdatedOnDisk([doc.uri]);
       }),
 
       // File creation events
-      vscode.workspace.onDidCreateFiles((event) => {
-         if (event.files.some(uri => uri.fsPath.endsWith('.tree') || uri.fsPath.endsWith('forest.toml'))) {
-            forestUpdatedOnDisk();
-         }
+      vscode.workspace.onDidCreateFiles(async (event) => {
+         await Promise.all(event.files.filter(isTreeFile).map(indexTreeFromDisk));
+         forestsUpdatedOnDisk([...event.files]);
       }),
 
       // File deletion events
       vscode.workspace.onDidDeleteFiles((event) => {
-         if (event.files.some(uri => uri.fsPath.endsWith('.tree') || uri.fsPath.endsWith('forest.toml'))) {
-            forestUpdatedOnDisk();
-         }
+         event.files.filter(isTreeFile).forEach(uri => removeTreeFromIndex(uri.fsPath));
+         forestsUpdatedOnDisk([...event.files]);
       }),
 
       // File rename events
-      vscode.workspace.onDidRenameFiles((event) => {
-         if (event.files.some(f => f.oldUri.fsPath.endsWith('.tree') || f.newUri.fsPath.endsWith('.tree') ||
-            f.oldUri.fsPath.endsWith('forest.toml') || f.newUri.fsPath.endsWith('forest.toml'))) {
-            forestUpdatedOnDisk();
+      vscode.workspace.onDidRenameFiles(async (event) => {
+         event.files.filter(f => isTreeFile(f.oldUri)).forEach(f => removeTreeFromIndex(f.oldUri.fsPath));
+         await Promise.all(event.files.filter(f => isTreeFile(f.newUri)).map(f => indexTreeFromDisk(f.newUri)));
+         forestsUpdatedOnDisk(event.files.flatMap(f => [f.oldUri, f.newUri]));
+      }),
+
+      // Drop a batch of watcher events that hasn't been processed yet
+      watcherChanges,
+
+      // Forests come and go with workspace folders
+      vscode.workspace.onDidChangeWorkspaceFolders(async (event) => {
+         for (const folder of event.removed) {
+            forests.get(folder.uri.fsPath)?.scheduler.dispose();
+            forests.delete(folder.uri.fsPath);
+            unwatchForest(folder.uri);
+            clearForestErrors(getForestDirectory(folder.uri));
+         }
+         for (const root of await getForestRoots()) {
+            if (!forests.has(root.fsPath)) {
+               loadForest(root);
+            }
          }
+         renderStatusBar();
       })
    );
 
    // Add to subscriptions for cleanup
    context.subscriptions.push(...fileEventDisposables);
 
-   // Trigger initial load
-   getForest({ forceReload: true })
+   // Trigger initial load of every forest in the workspace
+   getForestRoots().then(roots => {
+      for (const root of roots) {
+         loadForest(root);
+      }
+   });
 }
 
 
+/**
+ * Stop watching a forest for changes made outside VS Code
+ */
+function unwatchForest(root: vscode.Uri) {
+   forestWatchers.get(root.fsPath)?.forEach(d => d.dispose());
+   forestWatchers.delete(root.fsPath);
+}
+
 /**
  * Register a callback to be called when the forest changes
  * Returns a disposable to unregister the callback
@@ -270,7 +661,7 @@ export function onForestChange(callback: () => void): vscode.Disposable {
    forestChangeCallbacks.add(callback);
 
    // If we already have cached results, call the callback immediately
-   if (mostRecentQueryResult) {
+   if (Array.from(forests.values()).some(state => state.mostRecentQueryResult)) {
       callback();
    }
 
@@ -284,16 +675,18 @@ export function onForestChange(callback: () => void): vscode.Disposable {
  * Cleanup function for extension deactivation
  */
 export function cleanupServer(): void {
-   // Dispose file event handlers
+   // Dispose file event handlers and watchers
    fileEventDisposables.forEach(d => d.dispose());
    fileEventDisposables = [];
+   forestWatchers.forEach(disposables => disposables.forEach(d => d.dispose()));
+   forestWatchers.clear();
 
    // Clear callbacks
    forestChangeCallbacks.clear();
 
-   // Clear cache
-   queryInProgressPromise = null;
-   mostRecentQueryResult = null;
+   // Stop pending queries and clear cache
+   forests.forEach(state => state.scheduler.dispose());
+   forests.clear();
 }
 
 /**
@@ -301,10 +694,9 @@ export function cleanupServer(): void {
  * This provides an alternative way to get the forest data from the built output
  * The structure matches ForesterTree[] exactly
  */
-export async function getForestFromBuild(): Promise<Forest | null> {
+export async function getForestFromBuild(root: vscode.Uri = getRoot()): Promise<Forest | null> {
    try {
-      const root = getRoot();
-      const outputPath = join(root.fsPath, "output", "forest.json");
+      const outputPath = join(getForestDirectory(root), "output", "forest.json");
 
       if (!existsSync(outputPath)) return null
 
@@ -332,31 +724,36 @@ export async function getForestFromBuild(): Promise<Forest | null> {
    }
 }
 
-export async function command(command: string[]) {
+export async function command(command: string[], uri?: vscode.Uri) {
    // Get some configurations
-   const config = vscode.workspace.getConfiguration("forester");
-   const path: string = config.get("path") ?? "forester";
+   const root = getRoot(uri);
+   const config = vscode.workspace.getConfiguration("forester", root);
    const configfile: string | undefined = config.get("config");
-   const root = getRoot();
 
-   console.log(command);
+   const invocation = resolveInvocation(root, configfile ? [...command, configfile] : command);
+   logInvocation(invocation.command, invocation.args, invocation.cwd, invocation.extraEnv);
 
    try {
       let { stdout, stderr } = await execFile(
-         path,
-         configfile ? [...command, configfile] : command,
+         invocation.command,
+         invocation.args,
          {
-            cwd: root.fsPath,
+            cwd: invocation.cwd,
+            env: invocation.env,
             windowsHide: true,
          },
       );
-      if (stderr) {
-         vscode.window.showErrorMessage(stderr);
-      }
+      // forester prints warnings to stderr even when it succeeds; those only go to the output channel
+      logResult(`${command[0]} finished`, { stdout, stderr });
       return stdout;
    } catch (e: any) {
       const errorMessage = e.toString() + (e.stdout ? '\n\n' + e.stdout : '') + (e.stderr ? '\n\n' + e.stderr : '')
+      logResult(`${command[0]} failed: ${e}`, { stdout: e.stdout, stderr: e.stderr, failed: true });
 
-      vscode.window.showErrorMessage(errorMessage);
+      vscode.window.showErrorMessage(errorMessage, 'Show Output').then(choice => {
+         if (choice === 'Show Output') {
+            showOutputChannel();
+         }
+      });
    }
 }
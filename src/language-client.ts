@@ -0,0 +1,110 @@
+/**
+ * language-client.ts - Optional client for `forester lsp`
+ *
+ * Newer forester builds ship a language server. When `forester.lsp.enabled` is
+ * set for a forest, a client is started for it and completion, definition,
+ * hover and diagnostics come from the server. Forests without a running server
+ * are served by the hand-written providers registered in extension.ts.
+ */
+
+import * as vscode from "vscode";
+import {
+   LanguageClient,
+   LanguageClientOptions,
+   ServerOptions,
+   CloseAction,
+   ErrorAction,
+   RevealOutputChannelOn,
+} from "vscode-languageclient/node";
+import { getOutputChannel } from "./output-channel";
+import { resolveInvocation } from "./execution-profile";
+
+// Give up on a server that hasn't finished initializing by then and use the fallback providers
+const START_TIMEOUT_MS = 10000;
+
+// One client per forest root, keyed by the root's fsPath
+const clients = new Map<string, LanguageClient>();
+
+/**
+ * Whether the user has asked for the language server in the forest at `root`
+ */
+export function isLanguageServerEnabled(root: vscode.Uri): boolean {
+   return vscode.workspace.getConfiguration("forester", root).get<boolean>("lsp.enabled") ?? false;
+}
+
+/**
+ * The forest roots currently served by a language server
+ */
+export function getServedRoots(): vscode.Uri[] {
+   return Array.from(clients.keys(), fsPath => vscode.Uri.file(fsPath));
+}
+
+/**
+ * Start a language client for the forest at `root`, if it's enabled there.
+ * Returns whether the forest is now served by a language server.
+ */
+export async function startLanguageClient(root: vscode.Uri): Promise<boolean> {
+   if (clients.has(root.fsPath)) {
+      return true;
+   }
+   if (!isLanguageServerEnabled(root)) {
+      return false;
+   }
+
+   const configfile = vscode.workspace.getConfiguration("forester", root).get<string>("config");
+
+   const { command, args, cwd, env } = resolveInvocation(root, ["lsp", ...(configfile ? [configfile] : [])]);
+   const serverOptions: ServerOptions = { command, args, options: { cwd, env } };
+
+   const clientOptions: LanguageClientOptions = {
+      documentSelector: [{ scheme: "file", language: "forester", pattern: `${root.fsPath.replace(/\\/g, "/")}/**/*` }],
+      workspaceFolder: vscode.workspace.getWorkspaceFolder(root),
+      outputChannel: getOutputChannel() ?? undefined,
+      revealOutputChannelOn: RevealOutputChannelOn.Never,
+      // A forester without an LSP exits straight away; don't keep restarting it
+      initializationFailedHandler: () => false,
+      errorHandler: {
+         error: () => ({ action: ErrorAction.Shutdown }),
+         closed: () => ({ action: CloseAction.DoNotRestart }),
+      },
+   };
+
+   const client = new LanguageClient("forester", "Forester Language Server", serverOptions, clientOptions);
+
+   let timer: NodeJS.Timeout | undefined;
+   try {
+      await Promise.race([
+         client.start(),
+         new Promise((_, reject) => {
+            timer = setTimeout(() => reject(new Error(`timed out after ${START_TIMEOUT_MS}ms`)), START_TIMEOUT_MS);
+         }),
+      ]);
+      clients.set(root.fsPath, client);
+      getOutputChannel()?.info(`forester lsp started for ${root.fsPath}`);
+      return true;
+   } catch (error) {
+      getOutputChannel()?.warn(`forester lsp could not be started for ${root.fsPath}: ${error}`);
+      client.stop().catch(() => { /* already dead */ });
+      return false;
+   } finally {
+      clearTimeout(timer);
+   }
+}
+
+/**
+ * Stop the language client of the forest at `root`, e.g. when its folder leaves the workspace
+ */
+export async function stopLanguageClient(root: vscode.Uri): Promise<void> {
+   const client = clients.get(root.fsPath);
+   clients.delete(root.fsPath);
+   await client?.stop().catch(() => { /* already dead */ });
+}
+
+/**
+ * Stop every running language client (extension deactivation)
+ */
+export async function stopLanguageClients(): Promise<void> {
+   const running = Array.from(clients.values());
+   clients.clear();
+   await Promise.all(running.map(client => client.stop().catch(() => { /* already dead */ })));
+}
@@ -0,0 +1,286 @@
+/**
+ * macro-index.ts - Which `\def` macros are in scope in a tree
+ *
+ * A tree sees its own definitions plus everything made public by the trees it
+ * `\import`s or `\export`s. A tree makes public its own definitions and,
+ * transitively, those of the trees it `\export`s. As in forester, scope is read
+ * top to bottom: a later definition or import shadows an earlier one of the
+ * same name, and only what comes before a position is in scope there. Sources
+ * are parsed on demand and cached until the forest changes; open documents are
+ * always read live.
+ */
+
+import * as vscode from 'vscode';
+import { basename } from 'path';
+import { readFile } from 'fs/promises';
+import { ForesterTree, getForest, getForeignForest, onForestChange } from './get-forest';
+import { foreignTreeUri } from './foreign-forests';
+import { findMacroDefinitions, findTreeReferences, MacroDefinition, TreeReference } from './tree-parser';
+
+/**
+ * A macro definition, with the tree it comes from
+ */
+export interface ScopedMacro extends MacroDefinition {
+   treeId: string;
+   sourcePath: string;
+   tree?: ForesterTree;
+   /** Offset, in the source whose scope was resolved, from which the macro is in scope */
+   inScopeFrom: number;
+}
+
+/**
+ * What a tree's source contributes to macro scope
+ */
+export interface MacroSource {
+   definitions: MacroDefinition[];
+   /** The tree's `\import`s and `\export`s */
+   dependencies: TreeReference[];
+}
+
+// Parsed macro sources by file path
+const macroSources = new Map<string, MacroSource>();
+let initialized = false;
+
+/**
+ * Keep the macro cache in step with the forest and open documents
+ */
+export function initMacroIndex(context: vscode.ExtensionContext) {
+   if (initialized) {
+      return;
+   }
+   initialized = true;
+
+   context.subscriptions.push(
+      onForestChange(() => macroSources.clear()),
+      vscode.workspace.onDidChangeTextDocument(event => macroSources.delete(event.document.fileName)),
+      vscode.workspace.onDidCloseTextDocument(document => macroSources.delete(document.fileName)),
+   );
+}
+
+export function parseMacroSource(text: string): MacroSource {
+   return {
+      definitions: findMacroDefinitions(text),
+      dependencies: findTreeReferences(text).filter(reference => reference.type === 'import' || reference.type === 'export'),
+   };
+}
+
+async function readMacroSource(sourcePath: string): Promise<MacroSource> {
+   const cached = macroSources.get(sourcePath);
+   if (cached) {
+      return cached;
+   }
+
+   const document = vscode.workspace.textDocuments.find(doc => doc.fileName === sourcePath);
+   let text = '';
+   try {
+      text = document?.getText() ?? await readFile(sourcePath, 'utf-8');
+   } catch {
+      // Unreadable trees just don't contribute any macros
+   }
+
+   const source = parseMacroSource(text);
+   macroSources.set(sourcePath, source);
+   return source;
+}
+
+/**
+ * Every macro definition visible in the tree `treeId`, whose source is `source`, in scope order:
+ * where two share a name, the later one shadows the earlier. Each comes with the offset in
+ * `source` from which it's in scope: that of its definition, or of the import or export it
+ * comes through.
+ * @param trees - The trees imports and exports may refer to, by ID
+ * @param read - Read the source of one of those trees
+ */
+export async function resolveMacroScope(
+   source: MacroSource,
+   treeId: string,
+   sourcePath: string,
+   trees: Map<string, ForesterTree>,
+   read: (sourcePath: string) => Promise<MacroSource>,
+): Promise<ScopedMacro[]> {
+   // Definitions and dependencies of a source, in the order they appear. Below the tree itself
+   // only what's made public counts, and everything is in scope from where it was pulled in.
+   const walk = async (source: MacroSource, treeId: string, sourcePath: string, pulledInAt: number | undefined, visited: Set<string>) => {
+      const publicOnly = pulledInAt !== undefined;
+      const steps = [
+         ...source.definitions.map(definition => ({ start: definition.start, definition, dependency: undefined })),
+         ...source.dependencies
+            .filter(dependency => !publicOnly || dependency.type === 'export')
+            .map(dependency => ({ start: dependency.start, definition: undefined, dependency })),
+      ].sort((a, b) => a.start - b.start);
+
+      const macros: ScopedMacro[] = [];
+      for (const { start, definition, dependency } of steps) {
+         const inScopeFrom = pulledInAt ?? start;
+         if (definition) {
+            macros.push({ ...definition, treeId, sourcePath, tree: trees.get(treeId), inScopeFrom });
+         } else if (dependency && !visited.has(dependency.treeId)) {
+            // What the imported or exported tree makes public
+            visited.add(dependency.treeId);
+            const tree = trees.get(dependency.treeId);
+            if (!tree?.sourcePath) {
+               continue;
+            }
+            macros.push(...await walk(await read(tree.sourcePath), tree.uri, tree.sourcePath, inScopeFrom, visited));
+         }
+      }
+      return macros;
+   };
+
+   return walk(source, treeId, sourcePath, undefined, new Set([treeId]));
+}
+
+/**
+ * Every macro definition visible anywhere in `document`, in scope order
+ */
+async function collectMacros(document: vscode.TextDocument): Promise<ScopedMacro[]> {
+   const forest = await getForest({ uri: document.uri, fastReturnStale: true });
+   const trees = new Map([...forest, ...await getForeignForest(document.uri)].map(tree => [tree.uri, tree]));
+   const treeId = basename(document.fileName, '.tree');
+   return resolveMacroScope(parseMacroSource(document.getText()), treeId, document.fileName, trees, readMacroSource);
+}
+
+/**
+ * Every macro in scope in `document` (the ones that aren't shadowed), at `offset`
+ * or, without one, at the end of the document
+ */
+export async function getMacrosInScope(document: vscode.TextDocument, offset?: number): Promise<ScopedMacro[]> {
+   const macros = new Map<string, ScopedMacro>();
+   for (const macro of await collectMacros(document)) {
+      if (offset !== undefined && macro.inScopeFrom > offset) {
+         continue;
+      }
+      macros.delete(macro.name);
+      macros.set(macro.name, macro);
+   }
+   return [...macros.values()];
+}
+
+/**
+ * Where each macro visible in `document` first comes into scope, by name: a use of
+ * the macro before that offset doesn't resolve
+ */
+export async function getMacroScopeStarts(document: vscode.TextDocument): Promise<Map<string, number>> {
+   const starts = new Map<string, number>();
+   for (const macro of await collectMacros(document)) {
+      starts.set(macro.name, Math.min(macro.inScopeFrom, starts.get(macro.name) ?? Infinity));
+   }
+   return starts;
+}
+
+/**
+ * Every definition of the macro `name` visible in `document` at `offset`, the one in
+ * effect first and then those it shadows
+ */
+export async function getMacroDefinitions(document: vscode.TextDocument, name: string, offset?: number): Promise<ScopedMacro[]> {
+   return (await collectMacros(document))
+      .filter(macro => macro.name === name && (offset === undefined || macro.inScopeFrom <= offset))
+      .reverse();
+}
+
+/**
+ * The name of the macro invoked at `position`, and its range (without the backslash)
+ */
+export function macroAtPosition(document: vscode.TextDocument, position: vscode.Position): { name: string; range: vscode.Range } | undefined {
+   const line = document.lineAt(position.line).text;
+   const pattern = /\\([A-Za-z][\w/-]*)/g;
+   let match;
+   while ((match = pattern.exec(line)) !== null) {
+      if (match.index > position.character) {
+         break;
+      }
+      // `\\` is an escaped backslash, not the start of a macro
+      if (line[match.index - 1] === '\\') {
+         continue;
+      }
+      if (position.character <= match.index + match[0].length) {
+         return { name: match[1], range: new vscode.Range(position.line, match.index + 1, position.line, match.index + match[0].length) };
+      }
+   }
+   return undefined;
+}
+
+/**
+ * Where a macro is defined (foreign trees open read-only)
+ */
+async function macroLocation(macro: ScopedMacro): Promise<vscode.Location> {
+   const uri = macro.tree?.foreign ? foreignTreeUri(macro.sourcePath) : vscode.Uri.file(macro.sourcePath);
+   const document = await vscode.workspace.openTextDocument(uri);
+   return new vscode.Location(uri, new vscode.Range(document.positionAt(macro.start), document.positionAt(macro.end)));
+}
+
+function describeTree(macro: ScopedMacro): string {
+   return macro.tree?.title ? `${macro.tree.title} [${macro.treeId}]` : macro.treeId;
+}
+
+/**
+ * Describe a macro's signature, e.g. `\name[x][y]`
+ */
+export function macroSignature(macro: MacroDefinition): string {
+   return `\\${macro.name}${macro.parameters.map(parameter => `[${parameter}]`).join('')}`;
+}
+
+export class ForesterMacroCompletionProvider implements vscode.CompletionItemProvider {
+   public async provideCompletionItems(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.CompletionItem[]> {
+      const linePrefix = document.lineAt(position.line).text.slice(0, position.character);
+      const match = /\\([A-Za-z][\w/-]*)?$/.exec(linePrefix);
+      // `\\` is an escaped backslash, not the start of a macro
+      if (!match || linePrefix[match.index - 1] === '\\') {
+         return [];
+      }
+
+      const range = new vscode.Range(position.line, match.index + 1, position.line, position.character);
+
+      return (await getMacrosInScope(document, document.offsetAt(position))).map(macro => {
+         const arity = macro.parameters.length;
+         const item = new vscode.CompletionItem(
+            {
+               label: macro.name,
+               detail: macro.parameters.map(parameter => `[${parameter}]`).join(''),
+               description: macro.treeId,
+            },
+            vscode.CompletionItemKind.Function,
+         );
+         item.range = range;
+         item.insertText = new vscode.SnippetString(macro.name + macro.parameters.map((_, i) => `{$${i + 1}}`).join(''));
+         item.detail = `${arity} argument${arity === 1 ? '' : 's'}, defined in ${describeTree(macro)}`;
+         item.documentation = new vscode.MarkdownString().appendCodeblock(`\\def${macroSignature(macro)}{${macro.body}}`, 'forester');
+         return item;
+      });
+   }
+}
+
+export class ForesterMacroDefinitionProvider implements vscode.DefinitionProvider {
+   public async provideDefinition(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Location | undefined> {
+      const target = macroAtPosition(document, position);
+      if (!target) {
+         return undefined;
+      }
+
+      const [macro] = await getMacroDefinitions(document, target.name, document.offsetAt(target.range.start));
+      return macro ? macroLocation(macro) : undefined;
+   }
+}
+
+export class ForesterMacroHoverProvider implements vscode.HoverProvider {
+   public async provideHover(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Hover | undefined> {
+      const target = macroAtPosition(document, position);
+      if (!target) {
+         return undefined;
+      }
+
+      const [macro, ...shadowed] = await getMacroDefinitions(document, target.name, document.offsetAt(target.range.start));
+      if (!macro) {
+         return undefined;
+      }
+
+      const contents = new vscode.MarkdownString();
+      contents.appendCodeblock(`\\def${macroSignature(macro)}{${macro.body}}`, 'forester');
+      contents.appendMarkdown(`Defined in ${describeTree(macro)}`);
+      for (const other of shadowed) {
+         contents.appendMarkdown(`\n\n_Shadows \`${macroSignature(other)}\` from ${describeTree(other)}_`);
+      }
+
+      return new vscode.Hover(contents, target.range);
+   }
+}
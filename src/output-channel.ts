@@ -0,0 +1,77 @@
+/**
+ * output-channel.ts - The "Forester" output channel
+ *
+ * Every forester invocation is logged here (with its arguments, working
+ * directory and output) so a failing build can be debugged without devtools.
+ */
+
+import * as vscode from "vscode";
+
+let outputChannel: vscode.LogOutputChannel | null = null;
+
+/**
+ * Create the output channel (log channels add timestamps to every line)
+ */
+export function initOutputChannel(context: vscode.ExtensionContext) {
+   if (!outputChannel) {
+      outputChannel = vscode.window.createOutputChannel("Forester", { log: true });
+      context.subscriptions.push(outputChannel);
+   }
+}
+
+/**
+ * Get the output channel, or null before activation has created it
+ */
+export function getOutputChannel(): vscode.LogOutputChannel | null {
+   return outputChannel;
+}
+
+/**
+ * Reveal the output channel without taking focus from the editor
+ */
+export function showOutputChannel() {
+   outputChannel?.show(true);
+}
+
+/**
+ * Log the start of a forester invocation, with any extra environment variables it gets
+ */
+export function logInvocation(executable: string, args: string[], cwd: string, env: { [key: string]: string } = {}) {
+   const assignments = Object.entries(env).map(([key, value]) => `${key}=${quoteArgument(value)}`);
+   outputChannel?.info(`$ ${[...assignments, ...[executable, ...args].map(quoteArgument)].join(' ')}  (cwd: ${cwd})`);
+}
+
+/**
+ * Log the end of a forester invocation along with anything it printed
+ */
+export function logResult(description: string, { stdout, stderr, failed }: { stdout?: string; stderr?: string; failed?: boolean }) {
+   if (!outputChannel) {
+      return;
+   }
+
+   if (failed) {
+      outputChannel.error(description);
+   } else {
+      outputChannel.info(description);
+   }
+
+   // Successful query output is the whole forest as JSON, which would drown everything else
+   if (stdout?.trim()) {
+      if (failed) {
+         outputChannel.error(`stdout:\n${stdout.trimEnd()}`);
+      } else {
+         outputChannel.trace(`stdout:\n${stdout.trimEnd()}`);
+      }
+   }
+   if (stderr?.trim()) {
+      if (failed) {
+         outputChannel.error(`stderr:\n${stderr.trimEnd()}`);
+      } else {
+         outputChannel.warn(`stderr:\n${stderr.trimEnd()}`);
+      }
+   }
+}
+
+function quoteArgument(arg: string): string {
+   return /[\s"'$]/.test(arg) ? JSON.stringify(arg) : arg;
+}
@@ -0,0 +1,335 @@
+/**
+ * preview-panel.ts - Preview of the built site that follows the active tree
+ *
+ * Forester's output uses XSLT, which browsers only apply over http, so the
+ * `output/` directory is served from a small local server and shown in an
+ * iframe. The preview shows the page of the tree in the active editor, the
+ * forest is rebuilt when a tree is saved, and following a link in the preview
+ * opens the source of the tree it leads to.
+ */
+
+import * as vscode from 'vscode';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { stat, readFile } from 'fs/promises';
+import { basename, extname, join, relative, resolve, isAbsolute } from 'path';
+import { ForesterTree, command, getForest } from './get-forest';
+import { getForestDirectory } from './execution-profile';
+import { getRoot } from './utils';
+
+// How long to wait after the last save before rebuilding
+const REBUILD_DEBOUNCE_MS = 500;
+
+const CONTENT_TYPES: { [extension: string]: string } = {
+   '.html': 'text/html; charset=utf-8',
+   '.xml': 'application/xml; charset=utf-8',
+   '.xsl': 'text/xsl; charset=utf-8',
+   '.css': 'text/css; charset=utf-8',
+   '.js': 'text/javascript; charset=utf-8',
+   '.json': 'application/json; charset=utf-8',
+   '.svg': 'image/svg+xml',
+   '.png': 'image/png',
+   '.jpg': 'image/jpeg',
+   '.jpeg': 'image/jpeg',
+   '.gif': 'image/gif',
+   '.woff': 'font/woff',
+   '.woff2': 'font/woff2',
+   '.ttf': 'font/ttf',
+};
+
+/**
+ * Serves a forest's output directory on localhost
+ */
+export class OutputServer {
+   private server: http.Server;
+
+   /**
+    * @param onNavigate - Called with the requested path whenever the iframe navigates to a page
+    */
+   constructor(private readonly outputDirectory: string, private readonly onNavigate: (path: string) => void) {
+      this.server = http.createServer((request, response) => this.handle(request, response));
+   }
+
+   public listen(): Promise<number> {
+      return new Promise((resolvePort, reject) => {
+         this.server.once('error', reject);
+         // Disposed while still starting: it never listens, so don't leave the caller waiting
+         this.server.once('close', () => reject(new Error('Preview server closed while starting')));
+         this.server.listen(0, '127.0.0.1', () => resolvePort((this.server.address() as AddressInfo).port));
+      });
+   }
+
+   public dispose() {
+      this.server.close();
+   }
+
+   private async handle(request: http.IncomingMessage, response: http.ServerResponse) {
+      let path: string;
+      try {
+         path = decodeURIComponent(new URL(request.url ?? '/', 'http://localhost').pathname);
+      } catch {
+         // A malformed escape (or URL)
+         response.writeHead(400, { 'Content-Type': 'text/plain; charset=utf-8' }).end('Bad request');
+         return;
+      }
+
+      // Only page loads of the iframe itself count as navigation, not the stylesheets and images they pull in
+      const destination = request.headers['sec-fetch-dest'];
+      if (destination === 'iframe' || destination === 'document') {
+         this.onNavigate(path);
+      }
+
+      let file = resolve(this.outputDirectory, '.' + path);
+      const relativePath = relative(this.outputDirectory, file);
+      if (relativePath.startsWith('..') || isAbsolute(relativePath)) {
+         response.writeHead(403).end();
+         return;
+      }
+
+      try {
+         if ((await stat(file)).isDirectory()) {
+            file = await this.findIndex(file);
+         }
+         const contents = await readFile(file);
+         response.writeHead(200, {
+            'Content-Type': CONTENT_TYPES[extname(file).toLowerCase()] ?? 'application/octet-stream',
+            'Cache-Control': 'no-store',
+         });
+         response.end(contents);
+      } catch {
+         response.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' }).end(`Not found: ${path}`);
+      }
+   }
+
+   private async findIndex(directory: string): Promise<string> {
+      for (const index of ['index.html', 'index.xml']) {
+         try {
+            await stat(join(directory, index));
+            return join(directory, index);
+         } catch {
+            // try the next one
+         }
+      }
+      throw new Error(`No index in ${directory}`);
+   }
+}
+
+export class ForesterPreviewPanel {
+   public static readonly viewType = 'foresterPreview';
+   private static current: ForesterPreviewPanel | undefined;
+
+   private server: OutputServer | undefined;
+   private serverUrl: vscode.Uri | undefined;
+   private currentTree: ForesterTree | undefined;
+   private rebuildTimer: NodeJS.Timeout | undefined;
+   private disposables: vscode.Disposable[] = [];
+   private disposed = false;
+
+   /**
+    * Open the preview (or bring it to the front) for the tree in the active editor
+    */
+   public static async show() {
+      const root = getRoot();
+      if (ForesterPreviewPanel.current?.root.fsPath === root.fsPath) {
+         ForesterPreviewPanel.current.panel.reveal(undefined, true);
+         return;
+      }
+      ForesterPreviewPanel.current?.dispose();
+
+      const panel = vscode.window.createWebviewPanel(
+         ForesterPreviewPanel.viewType,
+         'Forester Preview',
+         { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+         { enableScripts: true, retainContextWhenHidden: true }
+      );
+      ForesterPreviewPanel.current = new ForesterPreviewPanel(panel, root);
+      await ForesterPreviewPanel.current.start();
+   }
+
+   private constructor(private readonly panel: vscode.WebviewPanel, private readonly root: vscode.Uri) {
+      this.disposables.push(
+         this.panel.onDidDispose(() => this.dispose()),
+         vscode.window.onDidChangeActiveTextEditor(editor => {
+            if (editor) {
+               this.followEditor(editor);
+            }
+         }),
+         vscode.workspace.onDidSaveTextDocument(document => {
+            if (document.fileName.endsWith('.tree') && vscode.workspace.getWorkspaceFolder(document.uri)?.uri.fsPath === this.root.fsPath) {
+               this.scheduleRebuild();
+            }
+         }),
+      );
+   }
+
+   private async start() {
+      const outputDirectory = join(getForestDirectory(this.root), 'output');
+
+      // Nothing to show until the forest has been built once
+      try {
+         await stat(outputDirectory);
+      } catch {
+         if (this.disposed) {
+            return;
+         }
+         this.panel.webview.html = this.getHtml(undefined, 'Building forest…');
+         await command(['build'], this.root);
+      }
+      // The panel may have been closed while building; the awaits below are checked the same way
+      if (this.disposed) {
+         return;
+      }
+
+      this.server = new OutputServer(outputDirectory, path => this.onNavigate(path));
+      let port: number;
+      try {
+         port = await this.server.listen();
+      } catch (error) {
+         if (this.disposed) {
+            return;
+         }
+         throw error;
+      }
+      const serverUrl = await vscode.env.asExternalUri(vscode.Uri.parse(`http://127.0.0.1:${port}/`));
+      if (this.disposed) {
+         return;
+      }
+      this.serverUrl = serverUrl;
+
+      const editor = vscode.window.activeTextEditor;
+      this.currentTree = editor ? await this.treeForDocument(editor.document) : undefined;
+      if (this.disposed) {
+         return;
+      }
+      if (this.currentTree) {
+         this.panel.title = `Preview: ${this.currentTree.title ?? this.currentTree.uri}`;
+      }
+      this.panel.webview.html = this.getHtml(this.pageUrl(this.currentTree));
+   }
+
+   private async treeForDocument(document: vscode.TextDocument): Promise<ForesterTree | undefined> {
+      if (!document.fileName.endsWith('.tree')) {
+         return undefined;
+      }
+      const forest = await getForest({ uri: this.root, fastReturnStale: true });
+      const treeId = basename(document.fileName, '.tree');
+      return forest.find(tree => tree.sourcePath === document.fileName) ?? forest.find(tree => tree.uri === treeId);
+   }
+
+   private pageUrl(tree: ForesterTree | undefined): string | undefined {
+      if (!this.serverUrl) {
+         return undefined;
+      }
+      return new URL(tree?.route ?? '', this.serverUrl.toString()).toString();
+   }
+
+   private async followEditor(editor: vscode.TextEditor) {
+      // Still starting up; the page is picked when the server is ready
+      if (!this.serverUrl) {
+         return;
+      }
+
+      const tree = await this.treeForDocument(editor.document);
+      if (!tree || tree.uri === this.currentTree?.uri) {
+         return;
+      }
+
+      this.currentTree = tree;
+      this.panel.title = `Preview: ${tree.title ?? tree.uri}`;
+      this.panel.webview.postMessage({ type: 'navigate', url: this.pageUrl(tree) });
+   }
+
+   /**
+    * The iframe went to `path`: open the source of the tree it belongs to
+    */
+   private async onNavigate(path: string) {
+      const route = path.replace(/^\/+/, '').replace(/index\.(html|xml)$/, '');
+      if (!route) {
+         return;
+      }
+
+      const forest = await getForest({ uri: this.root, fastReturnStale: true });
+      const tree = forest.find(entry => entry.route.replace(/index\.(html|xml)$/, '') === route);
+      if (!tree?.sourcePath || tree.uri === this.currentTree?.uri) {
+         return;
+      }
+
+      this.currentTree = tree;
+      this.panel.title = `Preview: ${tree.title ?? tree.uri}`;
+      const document = await vscode.workspace.openTextDocument(vscode.Uri.file(tree.sourcePath));
+      const sourceColumn = vscode.window.visibleTextEditors.find(editor => editor.document.fileName.endsWith('.tree'))?.viewColumn;
+      await vscode.window.showTextDocument(document, { viewColumn: sourceColumn ?? vscode.ViewColumn.One, preserveFocus: true });
+   }
+
+   private scheduleRebuild() {
+      clearTimeout(this.rebuildTimer);
+      this.rebuildTimer = setTimeout(async () => {
+         this.rebuildTimer = undefined;
+         const output = await command(['build'], this.root);
+         // A failed build has already been reported; keep showing the last good page
+         if (output !== undefined) {
+            this.panel.webview.postMessage({ type: 'navigate', url: this.pageUrl(this.currentTree) });
+         }
+      }, REBUILD_DEBOUNCE_MS);
+   }
+
+   private getHtml(url: string | undefined, message?: string): string {
+      return `<!DOCTYPE html>
+         <html lang="en">
+         <head>
+            <meta charset="UTF-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>Forester Preview</title>
+            <style>
+               html, body {
+                  margin: 0;
+                  padding: 0;
+                  height: 100%;
+                  overflow: hidden;
+               }
+
+               iframe {
+                  border: none;
+                  width: 100%;
+                  height: 100%;
+                  background-color: white;
+               }
+
+               .message {
+                  padding: 16px;
+                  font-family: var(--vscode-font-family);
+                  color: var(--vscode-descriptionForeground);
+                  font-style: italic;
+               }
+            </style>
+         </head>
+         <body>
+            ${url ? `<iframe id="preview" src="${url}"></iframe>` : `<div class="message">${message ?? 'Open a .tree file to preview it'}</div>`}
+            <script>
+               const preview = document.getElementById('preview');
+
+               // Setting src reloads the page even if it is already showing
+               window.addEventListener('message', event => {
+                  const message = event.data;
+                  if (preview && message.type === 'navigate') {
+                     preview.src = message.url;
+                  }
+               });
+            </script>
+         </body>
+         </html>`;
+   }
+
+   public dispose() {
+      if (this.disposed) {
+         return;
+      }
+      this.disposed = true;
+      ForesterPreviewPanel.current = undefined;
+      clearTimeout(this.rebuildTimer);
+      this.server?.dispose();
+      this.disposables.forEach(d => d.dispose());
+      this.disposables = [];
+      this.panel.dispose();
+   }
+}
@@ -0,0 +1,137 @@
+/**
+ * query-scheduler.ts - Debounces and supersedes forest queries
+ *
+ * Bursts of file events are coalesced into a single query, and starting a new
+ * query cancels the one in flight (its result is dropped). Everyone waiting on
+ * the scheduler gets the result of the newest query.
+ */
+
+import * as vscode from "vscode";
+
+interface Waiter<T> {
+   resolve: (value: T) => void;
+   reject: (error: unknown) => void;
+}
+
+export class QueryScheduler<T, O> {
+   private current: vscode.CancellationTokenSource | null = null;
+   private debounceTimer: NodeJS.Timeout | undefined;
+   private waiters: Waiter<T>[] = [];
+
+   /**
+    * @param run - Performs one query; should stop early once `token` is cancelled
+    * @param onCancel - Produces the value handed to waiters when the user cancels
+    */
+   constructor(
+      private readonly run: (token: vscode.CancellationToken, options: O) => Promise<T>,
+      private readonly onCancel: () => T,
+   ) { }
+
+   /**
+    * Whether a query is waiting to start or in flight
+    */
+   public get isBusy(): boolean {
+      return this.current !== null || this.debounceTimer !== undefined;
+   }
+
+   /**
+    * Run a query once there have been no further calls for `delayMs`.
+    * All calls in the burst resolve with the same result.
+    */
+   public schedule(delayMs: number, options: O): Promise<T> {
+      clearTimeout(this.debounceTimer);
+      const result = this.wait();
+      this.debounceTimer = setTimeout(() => {
+         this.debounceTimer = undefined;
+         this.start(options);
+      }, delayMs);
+      return result;
+   }
+
+   /**
+    * Start a query immediately, superseding any query in flight
+    */
+   public runNow(options: O): Promise<T> {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = undefined;
+      const result = this.wait();
+      this.start(options);
+      return result;
+   }
+
+   /**
+    * Wait for the result of the pending or in-flight query
+    */
+   public wait(): Promise<T> {
+      return new Promise<T>((resolve, reject) => this.waiters.push({ resolve, reject }));
+   }
+
+   /**
+    * Cancel the pending or in-flight query and release its waiters with `onCancel()`
+    */
+   public cancel() {
+      if (!this.isBusy) {
+         return;
+      }
+
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = undefined;
+      this.current?.cancel();
+      this.current = null;
+
+      const value = this.onCancel();
+      this.settle(waiter => waiter.resolve(value));
+   }
+
+   /**
+    * Stop for good; anyone still waiting gets `onCancel()` rather than hanging
+    */
+   public dispose() {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = undefined;
+      this.current?.cancel();
+      this.current = null;
+
+      if (this.waiters.length > 0) {
+         const value = this.onCancel();
+         this.settle(waiter => waiter.resolve(value));
+      }
+   }
+
+   private async start(options: O) {
+      // Superseded queries are cancelled; whoever was waiting on them gets this one's result
+      this.current?.cancel();
+
+      const source = new vscode.CancellationTokenSource();
+      this.current = source;
+
+      try {
+         const result = await this.run(source.token, options);
+         // A newer query (or a cancel) has taken over
+         if (this.current !== source) {
+            return;
+         }
+         this.current = null;
+         // If another query is already queued, leave the waiters for it: they asked for newer data
+         if (this.debounceTimer === undefined) {
+            this.settle(waiter => waiter.resolve(result));
+         }
+      } catch (error) {
+         if (this.current !== source) {
+            return;
+         }
+         this.current = null;
+         if (this.debounceTimer === undefined) {
+            this.settle(waiter => waiter.reject(error));
+         }
+      } finally {
+         source.dispose();
+      }
+   }
+
+   private settle(action: (waiter: Waiter<T>) => void) {
+      const waiters = this.waiters;
+      this.waiters = [];
+      waiters.forEach(action);
+   }
+}
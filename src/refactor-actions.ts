@@ -0,0 +1,49 @@
+/**
+ * refactor-actions.ts - Extract and inline refactorings for .tree files
+ *
+ * "Extract selection to new tree" moves the selection into a new tree and
+ * transcludes it in its place; "Inline transclusion" does the reverse. The
+ * work itself is done by commands in edit-forest.ts, since both need to ask
+ * the user something first.
+ */
+
+import * as vscode from 'vscode';
+import { findTreeReferences, referenceExtent } from './tree-parser';
+
+export class ForesterRefactorCodeActionProvider implements vscode.CodeActionProvider {
+   public static readonly providedCodeActionKinds = [
+      vscode.CodeActionKind.RefactorExtract,
+      vscode.CodeActionKind.RefactorInline,
+   ];
+
+   public provideCodeActions(document: vscode.TextDocument, range: vscode.Range): vscode.CodeAction[] {
+      const actions: vscode.CodeAction[] = [];
+
+      if (!range.isEmpty && document.getText(range).trim()) {
+         const extract = new vscode.CodeAction('Extract selection to new tree', vscode.CodeActionKind.RefactorExtract);
+         extract.command = { title: extract.title, command: 'forester.extractToNewTree', arguments: [document.uri, range] };
+         actions.push(extract);
+      }
+
+      const text = document.getText();
+      const start = document.offsetAt(range.start);
+      const end = document.offsetAt(range.end);
+      for (const reference of findTreeReferences(text)) {
+         if (reference.type !== 'transclude') {
+            continue;
+         }
+
+         const extent = referenceExtent(text, reference);
+         if (extent.start > end || extent.end < start) {
+            continue;
+         }
+
+         const inline = new vscode.CodeAction(`Inline transclusion of '${reference.treeId}'`, vscode.CodeActionKind.RefactorInline);
+         const extentRange = new vscode.Range(document.positionAt(extent.start), document.positionAt(extent.end));
+         inline.command = { title: inline.title, command: 'forester.inlineTransclusion', arguments: [document.uri, reference.treeId, extentRange] };
+         actions.push(inline);
+      }
+
+      return actions;
+   }
+}
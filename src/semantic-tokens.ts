@@ -0,0 +1,193 @@
+/**
+ * semantic-tokens.ts - Semantic highlighting for .tree files
+ *
+ * On top of the TextMate grammar, this tells tree references that resolve
+ * apart from broken ones and ones into foreign forests, user macros apart from
+ * forester's primitives and undefined macros (or ones used before they are
+ * defined or imported), and marks metadata commands.
+ * TeX, in math and in `\tex`, is left to the grammar.
+ * See `semanticTokenScopes` in package.json for the fallback colors.
+ */
+
+import * as vscode from 'vscode';
+import { getForest, getForeignForest } from './get-forest';
+import { getMacroScopeStarts } from './macro-index';
+import { findMacroDefinitions, findMathRegions, findTreeReferences, isTreeReference, maskInactiveRegions, METADATA_COMMANDS, readBracedArgument } from './tree-parser';
+
+export const SEMANTIC_TOKENS_LEGEND = new vscode.SemanticTokensLegend(
+   ['treeReference', 'macro', 'metadata'],
+   ['unresolved', 'foreign', 'defaultLibrary', 'declaration'],
+);
+
+// Forester's built-in commands (not the macros of any library of trees), and namespaces of them
+const PRIMITIVES = new Set([
+   'p', 'em', 'strong', 'ol', 'ul', 'li', 'code', 'pre', 'blockquote', 'figure', 'figcaption',
+   'transclude', 'import', 'export', 'ref', 'subtree', 'query', 'tex', 'texfig', 'verb', 'startverb', 'stopverb',
+   'def', 'let', 'alloc', 'open', 'namespace', 'scope', 'put', 'get', 'default', 'fun', 'object', 'patch', 'call',
+   'xmlns', 'route-asset', 'current-tree', 'syndicate-current-tree-as-atom-feed', 'syndicate-query-as-json-blob',
+   'datalog', 'execute',
+]);
+
+/**
+ * Regions of TeX rather than forester markup: math and the arguments of `\tex`
+ */
+function texRegions(source: string): { start: number; end: number }[] {
+   const regions = findMathRegions(source);
+
+   const texPattern = /\\tex(?=\s*\{)/g;
+   let match;
+   while ((match = texPattern.exec(source)) !== null) {
+      if (source[match.index - 1] === '\\') {
+         continue;
+      }
+
+      // \tex{preamble}{body}
+      let end = match.index + match[0].length;
+      for (let i = 0; i < 2; i++) {
+         const argument = readBracedArgument(source, end + source.slice(end).search(/\S|$/));
+         if (!argument) {
+            break;
+         }
+         end = argument.end;
+      }
+      regions.push({ start: match.index + match[0].length, end });
+      texPattern.lastIndex = end;
+   }
+
+   return regions;
+}
+
+export interface Token {
+   start: number;
+   end: number;
+   type: string;
+   modifiers: string[];
+}
+
+/**
+ * Names bound in the document itself: `\let` and `\alloc`, and the arguments of `\def`, `\let` and `\fun`
+ */
+function localNames(text: string, source: string): Set<string> {
+   const names = new Set<string>();
+   for (const definition of findMacroDefinitions(text)) {
+      definition.parameters.forEach(parameter => names.add(parameter.replace(/^~/, '')));
+   }
+
+   const bindingPattern = /\\(?:let|alloc)\s*\\([A-Za-z][\w/-]*)/g;
+   let match;
+   while ((match = bindingPattern.exec(source)) !== null) {
+      names.add(match[1]);
+   }
+
+   const parametersPattern = /\\(?:let\s*\\[A-Za-z][\w/-]*|fun)((?:\s*\[[^\]]*\])+)/g;
+   while ((match = parametersPattern.exec(source)) !== null) {
+      for (const parameter of match[1].matchAll(/\[([^\]]*)\]/g)) {
+         names.add(parameter[1].trim().replace(/^~/, ''));
+      }
+   }
+
+   return names;
+}
+
+/**
+ * What the tokens of a document resolve against
+ */
+export interface TokenScope {
+   /** IDs of the trees in the forest; empty while there's no forest yet */
+   knownIds: Set<string>;
+   foreignIds: Set<string>;
+   /** Where each macro visible in the document comes into scope (see `getMacroScopeStarts`) */
+   macroScopes: Map<string, number>;
+}
+
+/**
+ * The tokens of a tree's source `text`, in order
+ */
+export function findSemanticTokens(text: string, { knownIds, foreignIds, macroScopes }: TokenScope): Token[] {
+   // Without a forest (yet) nothing can be told to be unresolved
+   const resolving = knownIds.size > 0;
+
+   const source = maskInactiveRegions(text);
+   const locals = localNames(text, source);
+   const tex = texRegions(source);
+   const tokens: Token[] = [];
+
+   for (const reference of findTreeReferences(text)) {
+      if (!isTreeReference(reference)) {
+         continue;
+      }
+
+      const modifiers = !resolving || knownIds.has(reference.treeId) ? []
+         : foreignIds.has(reference.treeId) ? ['foreign']
+            : ['unresolved'];
+      tokens.push({ start: reference.start, end: reference.end, type: 'treeReference', modifiers });
+   }
+
+   const commandPattern = /\\([A-Za-z][\w/-]*)/g;
+   let match;
+   while ((match = commandPattern.exec(source)) !== null) {
+      // `\\` is an escaped backslash, not the start of a command
+      if (source[match.index - 1] === '\\') {
+         continue;
+      }
+      // TeX commands aren't macros
+      const start = match.index;
+      if (tex.some(region => region.start <= start && start < region.end)) {
+         continue;
+      }
+
+      const name = match[1];
+      // Built-ins come in namespaces, e.g. `\query/tag` and `\author/literal`
+      const builtin = name.split('/')[0];
+      const range = { start: match.index, end: match.index + match[0].length };
+      const defined = /\\def\s*$/.test(source.slice(Math.max(0, match.index - 10), match.index));
+
+      if (defined) {
+         tokens.push({ ...range, type: 'macro', modifiers: ['declaration'] });
+      } else if (METADATA_COMMANDS.includes(builtin)) {
+         tokens.push({ ...range, type: 'metadata', modifiers: [] });
+      } else if ((macroScopes.get(name) ?? Infinity) <= match.index || locals.has(name)) {
+         tokens.push({ ...range, type: 'macro', modifiers: [] });
+      } else if (PRIMITIVES.has(builtin)) {
+         tokens.push({ ...range, type: 'macro', modifiers: ['defaultLibrary'] });
+      } else {
+         tokens.push({ ...range, type: 'macro', modifiers: resolving ? ['unresolved'] : [] });
+      }
+   }
+
+   return tokens.sort((a, b) => a.start - b.start);
+}
+
+export class ForesterSemanticTokensProvider implements vscode.DocumentSemanticTokensProvider {
+   private readonly changeEmitter = new vscode.EventEmitter<void>();
+   public readonly onDidChangeSemanticTokens = this.changeEmitter.event;
+
+   /**
+    * Re-highlight open documents, e.g. when trees come and go
+    */
+   public refresh() {
+      this.changeEmitter.fire();
+   }
+
+   public async provideDocumentSemanticTokens(document: vscode.TextDocument, token: vscode.CancellationToken): Promise<vscode.SemanticTokens | undefined> {
+      const forest = await getForest({ uri: document.uri, fastReturnStale: true });
+      const foreignIds = new Set((await getForeignForest(document.uri)).map(tree => tree.uri));
+      const knownIds = new Set(forest.map(tree => tree.uri));
+      const macroScopes = await getMacroScopeStarts(document);
+      if (token.isCancellationRequested) {
+         return undefined;
+      }
+
+      const tokens = findSemanticTokens(document.getText(), { knownIds, foreignIds, macroScopes });
+
+      const builder = new vscode.SemanticTokensBuilder(SEMANTIC_TOKENS_LEGEND);
+      for (const { start, end, type, modifiers } of tokens) {
+         const range = new vscode.Range(document.positionAt(start), document.positionAt(end));
+         // Tokens can't span lines
+         if (range.isSingleLine) {
+            builder.push(range, type, modifiers);
+         }
+      }
+      return builder.build();
+   }
+}
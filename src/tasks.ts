@@ -0,0 +1,127 @@
+/**
+ * tasks.ts - Task provider for running forester from the Tasks menu
+ *
+ * Contributes `forester build`, `forester new` and `forester query all` for
+ * every forest in the workspace, run through the execution profile with the
+ * configured `forester.config`, with the `$forester` problem matchers attached.
+ */
+
+import * as vscode from "vscode";
+import { getForestRoots, getRootTreeDirectory, getForestConfig } from "./utils";
+import { resolveInvocation } from "./execution-profile";
+
+/**
+ * Shape of a `"type": "forester"` task in tasks.json (see taskDefinitions in package.json)
+ */
+interface ForesterTaskDefinition extends vscode.TaskDefinition {
+   command: 'build' | 'new' | 'query';
+   args?: string[];
+}
+
+export class ForesterTaskProvider implements vscode.TaskProvider {
+   public static readonly type = 'forester';
+
+   public async provideTasks(): Promise<vscode.Task[]> {
+      const tasks: vscode.Task[] = [];
+
+      for (const root of await getForestRoots()) {
+         const folder = vscode.workspace.getWorkspaceFolder(root);
+         if (!folder) {
+            continue;
+         }
+
+         tasks.push(this.createTask({ type: ForesterTaskProvider.type, command: 'build' }, folder));
+         tasks.push(this.createTask({ type: ForesterTaskProvider.type, command: 'query', args: ['all'] }, folder));
+
+         // `forester new` needs a prefix, which we can only supply if one is configured
+         const newArgs = await this.defaultNewArgs(root);
+         if (newArgs) {
+            tasks.push(this.createTask({ type: ForesterTaskProvider.type, command: 'new', args: newArgs }, folder));
+         }
+      }
+
+      return tasks;
+   }
+
+   public async resolveTask(task: vscode.Task): Promise<vscode.Task | undefined> {
+      const definition = task.definition as ForesterTaskDefinition;
+      if (!definition.command) {
+         return undefined;
+      }
+
+      // Folder tasks run in a forest of their folder, workspace and user tasks in the first forest
+      const roots = await getForestRoots();
+      const scope = task.scope;
+      const root = typeof scope === 'object'
+         ? roots.find((root) => vscode.workspace.getWorkspaceFolder(root)?.uri.toString() === scope.uri.toString()) ?? scope.uri
+         : roots[0];
+      const folder = root && vscode.workspace.getWorkspaceFolder(root);
+      if (!folder) {
+         return undefined;
+      }
+
+      const args = definition.args ?? await this.defaultArgs(definition.command, root);
+      if (!args) {
+         return undefined;
+      }
+
+      return this.createTask(definition, folder, args);
+   }
+
+   private createTask(definition: ForesterTaskDefinition, folder: vscode.WorkspaceFolder, taskArgs = definition.args ?? []): vscode.Task {
+      const config = vscode.workspace.getConfiguration("forester", folder.uri);
+      const configfile = config.get<string>("config");
+
+      const { command, args, cwd, extraEnv } = resolveInvocation(
+         folder.uri,
+         [definition.command, ...taskArgs, ...(configfile ? [configfile] : [])],
+      );
+      const name = [definition.command, ...taskArgs].join(' ');
+
+      const task = new vscode.Task(
+         definition,
+         folder,
+         name,
+         ForesterTaskProvider.type,
+         new vscode.ProcessExecution(command, args, { cwd, env: extraEnv }),
+         ['$forester', '$forester-inline'],
+      );
+      if (definition.command === 'build') {
+         task.group = vscode.TaskGroup.Build;
+      }
+      return task;
+   }
+
+   /**
+    * The arguments `provideTasks` would give a command, undefined if it can't run without more
+    */
+   private async defaultArgs(command: ForesterTaskDefinition['command'], root: vscode.Uri): Promise<string[] | undefined> {
+      switch (command) {
+         case 'build':
+            return [];
+         case 'query':
+            return ['all'];
+         case 'new':
+            return this.defaultNewArgs(root);
+      }
+   }
+
+   private async defaultNewArgs(root: vscode.Uri): Promise<string[] | undefined> {
+      const config = vscode.workspace.getConfiguration("forester", root);
+
+      let prefix = config.get<string>("defaultPrefix");
+      if (!prefix) {
+         try {
+            prefix = (await getForestConfig(root))?.forest?.prefixes?.[0];
+         } catch {
+            // unreadable config, no prefix to offer
+         }
+      }
+      if (!prefix) {
+         return undefined;
+      }
+
+      const dest = await getRootTreeDirectory(root);
+      return ['--dest', dest.fsPath, '--prefix', prefix];
+   }
+}
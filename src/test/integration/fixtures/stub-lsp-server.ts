@@ -0,0 +1,47 @@
+/**
+ * stub-lsp-server.ts - A minimal language server standing in for `forester lsp`
+ *
+ * Speaks just enough of the protocol over stdio to be started and stopped by
+ * vscode-languageclient: it answers `initialize` and `shutdown`, and exits on
+ * `exit`. Everything else is ignored.
+ */
+
+let buffer = Buffer.alloc(0);
+
+function send(message: object) {
+   const body = JSON.stringify({ jsonrpc: "2.0", ...message });
+   process.stdout.write(`Content-Length: ${Buffer.byteLength(body)}\r\n\r\n${body}`);
+}
+
+function handle(message: { id?: number | string; method?: string }) {
+   switch (message.method) {
+      case "initialize":
+         send({ id: message.id, result: { capabilities: {}, serverInfo: { name: "stub-forester-lsp" } } });
+         break;
+      case "shutdown":
+         send({ id: message.id, result: null });
+         break;
+      case "exit":
+         process.exit(0);
+   }
+}
+
+process.stdin.on("data", (chunk: Buffer) => {
+   buffer = Buffer.concat([buffer, chunk]);
+   for (;;) {
+      const headerEnd = buffer.indexOf("\r\n\r\n");
+      if (headerEnd < 0) {
+         return;
+      }
+
+      const length = Number(/Content-Length: (\d+)/i.exec(buffer.subarray(0, headerEnd).toString())?.[1]);
+      const bodyStart = headerEnd + 4;
+      if (buffer.length < bodyStart + length) {
+         return;
+      }
+
+      const body = buffer.subarray(bodyStart, bodyStart + length).toString();
+      buffer = buffer.subarray(bodyStart + length);
+      handle(JSON.parse(body));
+   }
+});
@@ -0,0 +1,50 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import { tmpdir } from "os";
+import { join } from "path";
+import { getServedRoots, startLanguageClient, stopLanguageClients } from "../../language-client";
+
+const STUB_SERVER = join(__dirname, "fixtures", "stub-lsp-server.js");
+
+suite("language-client", () => {
+   const root = vscode.Uri.file(tmpdir());
+   const config = () => vscode.workspace.getConfiguration("forester");
+   const global = vscode.ConfigurationTarget.Global;
+
+   suiteSetup(async () => {
+      await config().update("lsp.enabled", true, global);
+      // "forester" is a node script run by the extension host's own runtime
+      await config().update("execution.wrapper", [process.execPath], global);
+      await config().update("execution.env", { ELECTRON_RUN_AS_NODE: "1" }, global);
+   });
+
+   teardown(() => stopLanguageClients());
+
+   suiteTeardown(async () => {
+      for (const key of ["lsp.enabled", "execution.wrapper", "execution.env", "path"]) {
+         await config().update(key, undefined, global);
+      }
+   });
+
+   test("serves the forest with forester lsp when it starts", async () => {
+      await config().update("path", STUB_SERVER, global);
+      assert.strictEqual(await startLanguageClient(root), true);
+      assert.deepStrictEqual(getServedRoots().map(uri => uri.fsPath), [root.fsPath]);
+   });
+
+   test("falls back to the built-in providers when the server can't be started", async () => {
+      await config().update("path", join(__dirname, "fixtures", "no-such-server.js"), global);
+      assert.strictEqual(await startLanguageClient(root), false);
+      assert.deepStrictEqual(getServedRoots(), []);
+   });
+
+   test("starts nothing when forester.lsp.enabled is off", async () => {
+      await config().update("path", STUB_SERVER, global);
+      await config().update("lsp.enabled", false, global);
+      try {
+         assert.strictEqual(await startLanguageClient(root), false);
+      } finally {
+         await config().update("lsp.enabled", true, global);
+      }
+   });
+});
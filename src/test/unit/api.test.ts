@@ -0,0 +1,21 @@
+import * as assert from "assert";
+import { API_VERSION, createForesterApi } from "../../api";
+
+suite("api", () => {
+   test("is version 1", () => {
+      assert.strictEqual(API_VERSION, 1);
+      assert.strictEqual(createForesterApi().version, API_VERSION);
+   });
+
+   test("has exactly the members of version 1", () => {
+      // Keep in step with ForesterApi: changing or removing a member also means bumping API_VERSION
+      assert.deepStrictEqual(Object.keys(createForesterApi()).sort(), [
+         "createTree",
+         "getForest",
+         "getStatus",
+         "getTree",
+         "onForestChange",
+         "version",
+      ]);
+   });
+});
@@ -0,0 +1,48 @@
+import * as assert from "assert";
+import type { ForesterTree } from "../../get-forest";
+import { closestTrees, findBrokenReferences } from "../../broken-references";
+
+function tree(uri: string, title: string | null = null): ForesterTree {
+   return { uri, title, taxon: null, tags: [], route: `${uri}.xml`, metas: {}, sourcePath: `/forest/trees/${uri}.tree` };
+}
+
+suite("broken-references", () => {
+   suite("findBrokenReferences", () => {
+      test("finds references to trees that aren't known", () => {
+         const text = "\\transclude{jms-0001}\n\\ref{jms-0002}\n[link](jms-0003)\n\\import{macros}";
+         const broken = findBrokenReferences(text, new Set(["jms-0001", "macros"]));
+
+         assert.deepStrictEqual(broken.map(reference => [reference.type, reference.treeId]), [
+            ["ref", "jms-0002"],
+            ["link", "jms-0003"],
+         ]);
+         assert.strictEqual(text.slice(broken[0].start, broken[0].end), "jms-0002");
+      });
+
+      test("ignores external links, comments and verbatim blocks", () => {
+         const text = "[site](https://example.com)\n% \\transclude{gone}\n\\startverb\\ref{gone}\\stopverb";
+         assert.deepStrictEqual(findBrokenReferences(text, new Set()), []);
+      });
+   });
+
+   suite("closestTrees", () => {
+      const forest = [
+         tree("jms-0001", "Groups"),
+         tree("jms-0002", "Rings"),
+         tree("abc-0010", "Fields"),
+         tree("xyz-9999", "Something else entirely"),
+      ];
+
+      test("suggests trees with a similar ID, best first", () => {
+         assert.deepStrictEqual(closestTrees("jms-0003", forest).map(tree => tree.uri), ["jms-0001", "jms-0002"]);
+      });
+
+      test("suggests trees by title, ignoring case", () => {
+         assert.deepStrictEqual(closestTrees("rings", forest).map(tree => tree.uri), ["jms-0002"]);
+      });
+
+      test("suggests nothing when no tree is close", () => {
+         assert.deepStrictEqual(closestTrees("unrelated", forest), []);
+      });
+   });
+});
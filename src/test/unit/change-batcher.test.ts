@@ -0,0 +1,56 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import { ChangeBatcher, FileChange } from "../../change-batcher";
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * A batcher that records the batches it processes, as [path, deleted] pairs
+ */
+function batcher() {
+   const batches: [string, boolean][][] = [];
+   const changes = new ChangeBatcher(5, (batch: FileChange[]) => batches.push(batch.map(change => [change.uri.fsPath, change.deleted])));
+   return { changes, batches };
+}
+
+suite("change-batcher", () => {
+   test("processes a burst of events as one batch once it's quiet", async () => {
+      const { changes, batches } = batcher();
+      changes.queue(vscode.Uri.file("/forest/trees/a.tree"), false);
+      await delay(1);
+      changes.queue(vscode.Uri.file("/forest/trees/b.tree"), true);
+      assert.deepStrictEqual(batches, []);
+
+      await delay(20);
+      assert.deepStrictEqual(batches, [[["/forest/trees/a.tree", false], ["/forest/trees/b.tree", true]]]);
+   });
+
+   test("keeps only the latest event for each file", async () => {
+      const { changes, batches } = batcher();
+      changes.queue(vscode.Uri.file("/forest/trees/a.tree"), false);
+      changes.queue(vscode.Uri.file("/forest/trees/b.tree"), false);
+      changes.queue(vscode.Uri.file("/forest/trees/a.tree"), true);
+
+      await delay(20);
+      assert.deepStrictEqual(batches, [[["/forest/trees/a.tree", true], ["/forest/trees/b.tree", false]]]);
+   });
+
+   test("starts a new batch after processing one", async () => {
+      const { changes, batches } = batcher();
+      changes.queue(vscode.Uri.file("/forest/trees/a.tree"), false);
+      await delay(20);
+      changes.queue(vscode.Uri.file("/forest/trees/a.tree"), false);
+      await delay(20);
+
+      assert.strictEqual(batches.length, 2);
+   });
+
+   test("drops the pending batch when disposed", async () => {
+      const { changes, batches } = batcher();
+      changes.queue(vscode.Uri.file("/forest/trees/a.tree"), false);
+      changes.dispose();
+
+      await delay(20);
+      assert.deepStrictEqual(batches, []);
+   });
+});
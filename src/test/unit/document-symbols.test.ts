@@ -0,0 +1,86 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import type { ForesterTree } from "../../get-forest";
+import { textDocument } from "./text-document";
+import { findDocumentSymbols } from "../../document-symbols";
+
+const TITLED: { [treeId: string]: ForesterTree } = {
+   "jms-0001": { uri: "jms-0001", title: "Groups", taxon: null, tags: [], route: "jms-0001.xml", metas: {}, sourcePath: "/forest/trees/jms-0001.tree" },
+};
+
+interface Outline {
+   name: string;
+   detail: string;
+   children?: Outline[];
+}
+
+/**
+ * The outline of `lines`, as names and details
+ */
+async function outline(...lines: string[]): Promise<Outline[]> {
+   const simplify = (symbols: vscode.DocumentSymbol[]): Outline[] => symbols.map(({ name, detail, children }) =>
+      children.length > 0 ? { name, detail, children: simplify(children) } : { name, detail });
+   return simplify(await findDocumentSymbols(textDocument(lines.join("\n")), async treeId => TITLED[treeId]));
+}
+
+suite("document-symbols", () => {
+   suite("findDocumentSymbols", () => {
+      test("lists the title and metadata", async () => {
+         assert.deepStrictEqual(await outline(
+            "\\title{Some \\em{title}}",
+            "\\taxon{Definition}",
+            "\\date{2024-01-01}",
+            "\\tag{algebra}",
+            "\\meta{doi}{10.1000/182}",
+            "\\author{}",
+         ), [
+            { name: "Some title", detail: "title" },
+            { name: "Definition", detail: "taxon" },
+            { name: "2024-01-01", detail: "date" },
+            { name: "algebra", detail: "tag" },
+            { name: "doi: 10.1000/182", detail: "meta" },
+            { name: "(empty author)", detail: "author" },
+         ]);
+      });
+
+      test("labels transclusions with the title of the tree when it's known", async () => {
+         assert.deepStrictEqual(await outline("\\transclude{jms-0001}", "\\transclude{jms-9999}", "\\transclude{}"), [
+            { name: "Groups [jms-0001]", detail: "transclude" },
+            { name: "jms-9999", detail: "transclude" },
+            { name: "(empty transclusion)", detail: "transclude" },
+         ]);
+      });
+
+      test("nests the contents of subtrees and sections, naming them by their titles", async () => {
+         assert.deepStrictEqual(await outline(
+            "\\subtree[jms-0002]{",
+            "   \\title{Inner}",
+            "   \\section{Part}{",
+            "      \\transclude{jms-0001}",
+            "   }",
+            "}",
+            "\\subtree{\\p{untitled}}",
+         ), [
+            {
+               name: "Inner",
+               detail: "subtree [jms-0002]",
+               children: [
+                  { name: "Inner", detail: "title" },
+                  { name: "Part", detail: "section", children: [{ name: "Groups [jms-0001]", detail: "transclude" }] },
+               ],
+            },
+            { name: "(untitled subtree)", detail: "subtree" },
+         ]);
+      });
+
+      test("skips commented out and verbatim commands", async () => {
+         assert.deepStrictEqual(await outline("% \\title{Commented}", "\\startverb\\taxon{Verbatim}\\stopverb"), []);
+      });
+
+      test("gives the range of the whole command", async () => {
+         const [symbol] = await findDocumentSymbols(textDocument("\\p{}\n\\taxon{Definition}"), async () => undefined);
+         assert.deepStrictEqual([symbol.range.start.line, symbol.range.start.character, symbol.range.end.character], [1, 0, 18]);
+         assert.deepStrictEqual([symbol.selectionRange.start.character, symbol.selectionRange.end.character], [7, 17]);
+      });
+   });
+});
@@ -0,0 +1,82 @@
+import * as assert from "assert";
+import { findFolds } from "../../folding-ranges";
+
+/**
+ * The folds of the lines of a tree, as [start, end, kind] triples
+ */
+function folds(...lines: string[]) {
+   return findFolds(lines.join("\n")).map(({ start, end, kind }) => kind ? [start, end, kind] : [start, end]);
+}
+
+suite("folding-ranges", () => {
+   suite("findFolds", () => {
+      test("folds command arguments, leaving the closing brace visible", () => {
+         assert.deepStrictEqual(folds(
+            "\\p{",
+            "   Some text",
+            "   \\ul{",
+            "      \\li{one}",
+            "      \\li{two}",
+            "   }",
+            "}",
+         ), [[0, 5], [2, 4]]);
+      });
+
+      test("folds subtrees with an address and math", () => {
+         assert.deepStrictEqual(folds(
+            "\\subtree[jms-0001]{",
+            "   ##{",
+            "      x^2",
+            "   }",
+            "}",
+         ), [[0, 3], [1, 2]]);
+      });
+
+      test("doesn't fold arguments on a single line or escaped braces", () => {
+         assert.deepStrictEqual(folds(
+            "\\p{one line} \\{",
+            "not an argument",
+            "\\}",
+         ), []);
+      });
+
+      test("ignores braces in comments and verbatim blocks, and folds the blocks", () => {
+         assert.deepStrictEqual(folds(
+            "\\p{",
+            "   % a stray {",
+            "   \\startverb",
+            "   }}}",
+            "   \\stopverb",
+            "}",
+         ), [[0, 4], [2, 3]]);
+      });
+
+      test("folds runs of comment lines", () => {
+         assert.deepStrictEqual(folds(
+            "% one",
+            "% two",
+            "text",
+            "% alone",
+            "text",
+            "   % three",
+            "   % four",
+         ), [[0, 1, "comment"], [5, 6, "comment"]]);
+      });
+
+      test("folds the metadata header", () => {
+         assert.deepStrictEqual(folds(
+            "\\title{A tree}",
+            "\\taxon{Definition}",
+            "",
+            "\\import{macros}",
+            "",
+            "\\p{text}",
+            "\\author{not in the header}",
+         ), [[0, 3, "region"]]);
+      });
+
+      test("copes with CRLF line endings", () => {
+         assert.deepStrictEqual(findFolds("\\p{\r\n   text\r\n}\r\n").map(({ start, end }) => [start, end]), [[0, 1]]);
+      });
+   });
+});
@@ -0,0 +1,76 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import { join } from "path";
+import { parseForesterErrors } from "../../forest-diagnostics";
+
+const ROOT = join("/", "forest");
+
+suite("forest-diagnostics", () => {
+   suite("parseForesterErrors", () => {
+      test("reads an asai error block, located by its source excerpt", () => {
+         const [error, ...rest] = parseForesterErrors([
+            "￫ error[Reporter.Message.Tree_not_found]",
+            "ꭍ ○ when expanding transclusions",
+            "■ trees/jms-0001.tree",
+            "5 | \\transclude{jms-9999}",
+            "  ^ Could not find tree jms-9999",
+         ].join("\n"), ROOT);
+
+         assert.strictEqual(rest.length, 0);
+         assert.strictEqual(error.file, join(ROOT, "trees", "jms-0001.tree"));
+         assert.strictEqual(error.code, "Reporter.Message.Tree_not_found");
+         assert.strictEqual(error.severity, vscode.DiagnosticSeverity.Error);
+         assert.strictEqual(error.message, "Could not find tree jms-9999");
+         assert.strictEqual(error.range.start.line, 4);
+         assert.strictEqual(error.range.end.line, 4);
+      });
+
+      test("prefers the explicit location of a source line", () => {
+         const [error] = parseForesterErrors([
+            "→ warning[Reporter.Message.Parse_error]: unexpected token",
+            "■ trees/jms-0002.tree:3:4-3:9",
+            "3 | \\p{oops",
+         ].join("\n"), ROOT);
+
+         assert.strictEqual(error.severity, vscode.DiagnosticSeverity.Warning);
+         assert.strictEqual(error.message, "unexpected token");
+         assert.deepStrictEqual([error.range.start.line, error.range.start.character], [2, 3]);
+         assert.deepStrictEqual([error.range.end.line, error.range.end.character], [2, 8]);
+      });
+
+      test("reads plain file:line:col errors", () => {
+         const [error] = parseForesterErrors("trees/jms-0003.tree:2:5: Unbound variable \\foo", ROOT);
+
+         assert.strictEqual(error.file, join(ROOT, "trees", "jms-0003.tree"));
+         assert.strictEqual(error.message, "Unbound variable \\foo");
+         assert.deepStrictEqual([error.range.start.line, error.range.start.character], [1, 4]);
+      });
+
+      test("reads OCaml-style locations and keeps absolute paths", () => {
+         const file = join("/", "elsewhere", "jms-0004.tree");
+         const [error] = parseForesterErrors([
+            "error[Parse_error]: syntax error",
+            `File "${file}", line 7, characters 2-6:`,
+         ].join("\n"), ROOT);
+
+         assert.strictEqual(error.file, file);
+         assert.deepStrictEqual([error.range.start.line, error.range.start.character], [6, 2]);
+         assert.deepStrictEqual([error.range.end.line, error.range.end.character], [6, 6]);
+      });
+
+      test("splits consecutive errors and uses the context when there's no message", () => {
+         const errors = parseForesterErrors([
+            "error[First]",
+            "ꭍ ○ when doing something",
+            "error[Second]: second message",
+         ].join("\n"), ROOT);
+
+         assert.deepStrictEqual(errors.map(error => [error.code, error.message]), [["First", "when doing something"], ["Second", "second message"]]);
+         assert.strictEqual(errors[0].file, undefined);
+      });
+
+      test("finds nothing in clean output", () => {
+         assert.deepStrictEqual(parseForesterErrors("Rendered 12 trees\n", ROOT), []);
+      });
+   });
+});
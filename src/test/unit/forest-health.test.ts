@@ -0,0 +1,84 @@
+import * as assert from "assert";
+import type { ForesterTree } from "../../get-forest";
+import { analyzeForestHealth } from "../../forest-health";
+import { findTreeReferences } from "../../tree-parser";
+
+/**
+ * A tree whose references are those of `source`
+ */
+function tree(uri: string, source = "", fields: Partial<ForesterTree> = {}): ForesterTree {
+   return {
+      uri,
+      title: `Tree ${uri}`,
+      taxon: "Note",
+      tags: [],
+      route: `${uri}.xml`,
+      metas: {},
+      sourcePath: `/forest/trees/${uri}.tree`,
+      references: findTreeReferences(source),
+      ...fields,
+   };
+}
+
+const ids = (trees: ForesterTree[]) => trees.map(tree => tree.uri);
+
+suite("forest-health", () => {
+   suite("analyzeForestHealth", () => {
+      test("counts trees by taxon and prefix", () => {
+         const health = analyzeForestHealth([
+            tree("index", "\\transclude{jms-0001} \\transclude{jms-0002} \\transclude{abc-0001}"),
+            tree("jms-0001", "", { taxon: "Definition" }),
+            tree("jms-0002", "", { taxon: "Definition" }),
+            tree("abc-0001", "", { taxon: null }),
+         ], new Set(), "index");
+
+         assert.strictEqual(health.treeCount, 4);
+         assert.deepStrictEqual(health.byTaxon, { "Note": 1, "Definition": 2, "(none)": 1 });
+         assert.deepStrictEqual(health.byPrefix, { "(none)": 1, "jms": 2, "abc": 1 });
+      });
+
+      test("finds orphans: trees only the tree itself refers to, other than the home tree", () => {
+         const health = analyzeForestHealth([
+            tree("index", "[link](jms-0001)"),
+            tree("jms-0001"),
+            tree("jms-0002", "\\ref{jms-0002}"),
+         ], new Set(), "index");
+
+         assert.deepStrictEqual(ids(health.orphans), ["jms-0002"]);
+      });
+
+      test("reports references to unknown trees, but not to foreign trees, files or anchors", () => {
+         const health = analyzeForestHealth([
+            tree("index", "\\transclude{jms-9999} \\ref{lib-0001} [pdf](paper.pdf) [here](#section) [[gone]]"),
+         ], new Set(["lib-0001"]), "index");
+
+         assert.deepStrictEqual(
+            health.brokenReferences.map(({ tree, reference }) => [tree.uri, reference.treeId]),
+            [["index", "jms-9999"], ["index", "gone"]],
+         );
+      });
+
+      test("lists trees missing a title or taxon", () => {
+         const health = analyzeForestHealth([
+            tree("index"),
+            tree("jms-0001", "", { title: null }),
+            tree("jms-0002", "", { taxon: null }),
+         ], new Set(), "index");
+
+         assert.deepStrictEqual(ids(health.missingTitle), ["jms-0001"]);
+         assert.deepStrictEqual(ids(health.missingTaxon), ["jms-0002"]);
+      });
+
+      test("finds transclusion cycles, including trees that transclude themselves", () => {
+         const health = analyzeForestHealth([
+            tree("index", "\\transclude{jms-0001}"),
+            tree("jms-0001", "\\transclude{jms-0002}"),
+            tree("jms-0002", "\\transclude{jms-0001}"),
+            tree("jms-0003", "\\transclude{jms-0003}"),
+            tree("jms-0004", "\\ref{jms-0004}"),
+         ], new Set(), "index");
+
+         assert.deepStrictEqual(health.cycles.map(cycle => ids(cycle).sort()), [["jms-0001", "jms-0002"], ["jms-0003"]]);
+      });
+   });
+});
@@ -0,0 +1,31 @@
+import * as assert from "assert";
+import type { Forest } from "../../get-forest";
+import { parseForestSnapshot, serializeForestSnapshot } from "../../forest-snapshot";
+
+const FOREST: Forest = [
+   { uri: "index", title: "Home", taxon: null, tags: [], route: "index.xml", metas: {}, sourcePath: "/forest/trees/index.tree" },
+];
+
+suite("forest-snapshot", () => {
+   test("reads back the forest it wrote", () => {
+      const text = serializeForestSnapshot("/forest", "forest.toml", FOREST);
+      assert.deepStrictEqual(parseForestSnapshot(text, "/forest", "forest.toml"), FOREST);
+   });
+
+   test("ignores snapshots of another root or config", () => {
+      const text = serializeForestSnapshot("/forest", "forest.toml", FOREST);
+      assert.strictEqual(parseForestSnapshot(text, "/other", "forest.toml"), null);
+      assert.strictEqual(parseForestSnapshot(text, "/forest", "release.toml"), null);
+   });
+
+   test("ignores snapshots of another version", () => {
+      const snapshot = JSON.parse(serializeForestSnapshot("/forest", "", FOREST));
+      snapshot.version = 0;
+      assert.strictEqual(parseForestSnapshot(JSON.stringify(snapshot), "/forest", ""), null);
+   });
+
+   test("ignores unreadable snapshots", () => {
+      assert.strictEqual(parseForestSnapshot("{ truncated", "/forest", ""), null);
+      assert.strictEqual(parseForestSnapshot(JSON.stringify({ version: 1, root: "/forest", config: "", forest: {} }), "/forest", ""), null);
+   });
+});
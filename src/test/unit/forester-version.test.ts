@@ -0,0 +1,67 @@
+import * as assert from "assert";
+import { getQueryAdapter, isSupportedVersion, parseForesterVersion } from "../../forester-version";
+
+const TREE = {
+   title: "A tree",
+   taxon: "Definition",
+   tags: ["algebra"],
+   route: "jms-0001.xml",
+   metas: { doi: "10.1000/182" },
+   sourcePath: "/forest/trees/jms-0001.tree",
+};
+
+suite("forester-version", () => {
+   suite("parseForesterVersion", () => {
+      test("reads bare and prefixed version numbers", () => {
+         assert.deepStrictEqual(parseForesterVersion("5.0\n"), { raw: "5.0", major: 5, minor: 0, patch: 0 });
+         assert.deepStrictEqual(parseForesterVersion("forester 4.3.1"), { raw: "forester 4.3.1", major: 4, minor: 3, patch: 1 });
+      });
+
+      test("gives null without a version number", () => {
+         assert.strictEqual(parseForesterVersion("forester (dev build)"), null);
+      });
+
+      test("supports 4.x and 5.x", () => {
+         assert.strictEqual(isSupportedVersion(parseForesterVersion("4.3.1")!), true);
+         assert.strictEqual(isSupportedVersion(parseForesterVersion("5.0")!), true);
+         assert.strictEqual(isSupportedVersion(parseForesterVersion("3.9")!), false);
+         assert.strictEqual(isSupportedVersion(parseForesterVersion("6.0")!), false);
+      });
+   });
+
+   suite("getQueryAdapter", () => {
+      test("reads 4.x output keyed by tree address", () => {
+         const adapter = getQueryAdapter(parseForesterVersion("4.3.1"));
+         assert.deepStrictEqual(adapter.parse({ "jms-0001": TREE }), [{ uri: "jms-0001", ...TREE }]);
+         assert.throws(() => adapter.parse([]));
+      });
+
+      test("reads 5.x output as an array of trees", () => {
+         const adapter = getQueryAdapter(parseForesterVersion("5.0"));
+         assert.deepStrictEqual(adapter.parse([{ uri: "jms-0001", ...TREE }]), [{ uri: "jms-0001", ...TREE }]);
+         assert.throws(() => adapter.parse({ "jms-0001": TREE }));
+         assert.throws(() => adapter.parse([{ title: "No uri" }]));
+      });
+
+      test("fills in the fields older output leaves out", () => {
+         const adapter = getQueryAdapter(parseForesterVersion("4.0"));
+         assert.deepStrictEqual(adapter.parse({ "jms-0002": {} }), [{
+            uri: "jms-0002",
+            title: null,
+            taxon: null,
+            tags: [],
+            route: "jms-0002.xml",
+            metas: {},
+            sourcePath: "",
+         }]);
+      });
+
+      test("goes by the shape of the output for unknown versions", () => {
+         for (const version of [null, parseForesterVersion("6.0")]) {
+            const adapter = getQueryAdapter(version);
+            assert.deepStrictEqual(adapter.parse({ "jms-0001": TREE }), [{ uri: "jms-0001", ...TREE }]);
+            assert.deepStrictEqual(adapter.parse([{ uri: "jms-0001", ...TREE }]), [{ uri: "jms-0001", ...TREE }]);
+         }
+      });
+   });
+});
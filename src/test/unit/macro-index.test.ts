@@ -0,0 +1,111 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import type { ForesterTree } from "../../get-forest";
+import { macroAtPosition, macroSignature, parseMacroSource, resolveMacroScope } from "../../macro-index";
+import { findMacroDefinitions } from "../../tree-parser";
+
+function tree(uri: string): ForesterTree {
+   return { uri, title: `Tree ${uri}`, taxon: null, tags: [], route: `${uri}.xml`, metas: {}, sourcePath: `/forest/trees/${uri}.tree` };
+}
+
+/**
+ * Resolve the scope of `text` in a forest whose other trees have the given sources
+ */
+function scope(text: string, sources: { [treeId: string]: string }) {
+   const trees = new Map(Object.keys(sources).map(treeId => [treeId, tree(treeId)]));
+   const read = async (sourcePath: string) => parseMacroSource(sources[sourcePath.replace(/^.*\/|\.tree$/g, "")]);
+   return resolveMacroScope(parseMacroSource(text), "main", "/forest/trees/main.tree", trees, read);
+}
+
+/**
+ * A document that is a single line of `text`
+ */
+function line(text: string): vscode.TextDocument {
+   return { lineAt: () => ({ text }) } as unknown as vscode.TextDocument;
+}
+
+suite("macro-index", () => {
+   suite("resolveMacroScope", () => {
+      test("puts local definitions in scope from where they are defined", async () => {
+         const text = "\\def\\a{A}\n\\p{\\a}\n\\def\\b[x]{\\x}";
+         const macros = await scope(text, {});
+
+         assert.deepStrictEqual(macros.map(macro => [macro.name, macro.treeId, macro.inScopeFrom]), [
+            ["a", "main", text.indexOf("a{A}")],
+            ["b", "main", text.indexOf("b[x]")],
+         ]);
+         assert.deepStrictEqual(macros[1].parameters, ["x"]);
+      });
+
+      test("puts imported definitions in scope from the import", async () => {
+         const text = "\\def\\a{A}\n\\import{macros}";
+         const macros = await scope(text, { macros: "\\def\\b{B}\\def\\c{C}" });
+         const imported = text.indexOf("macros");
+
+         assert.deepStrictEqual(macros.map(macro => [macro.name, macro.treeId, macro.inScopeFrom]), [
+            ["a", "main", text.indexOf("a{A}")],
+            ["b", "macros", imported],
+            ["c", "macros", imported],
+         ]);
+         assert.strictEqual(macros[1].sourcePath, "/forest/trees/macros.tree");
+         assert.strictEqual(macros[1].tree?.title, "Tree macros");
+      });
+
+      test("follows exports but not imports of the trees it pulls in", async () => {
+         const macros = await scope("\\import{outer}", {
+            outer: "\\import{private}\\export{public}\\def\\outer{}",
+            public: "\\def\\public{}",
+            private: "\\def\\private{}",
+         });
+
+         assert.deepStrictEqual(macros.map(macro => macro.name), ["public", "outer"]);
+      });
+
+      test("keeps scope order, so later definitions shadow earlier ones", async () => {
+         const macros = await scope("\\import{macros}\\def\\a{mine}", { macros: "\\def\\a{theirs}" });
+         assert.deepStrictEqual(macros.map(macro => macro.body), ["theirs", "mine"]);
+      });
+
+      test("visits each tree once, even in import cycles", async () => {
+         const macros = await scope("\\import{one}\\import{two}", {
+            one: "\\export{two}\\def\\one{}",
+            two: "\\export{one}\\export{main}\\def\\two{}",
+         });
+
+         assert.deepStrictEqual(macros.map(macro => macro.name), ["two", "one"]);
+      });
+
+      test("skips trees that aren't in the forest", async () => {
+         const macros = await scope("\\import{missing}\\def\\a{}", {});
+         assert.deepStrictEqual(macros.map(macro => macro.name), ["a"]);
+      });
+   });
+
+   suite("macroAtPosition", () => {
+      const document = line("\\p{\\emph{x} and \\\\text \\ns/macro}");
+
+      test("finds the macro under the cursor, without its backslash", () => {
+         const target = macroAtPosition(document, new vscode.Position(0, 6));
+         assert.strictEqual(target?.name, "emph");
+         assert.deepStrictEqual([target.range.start.character, target.range.end.character], [4, 8]);
+      });
+
+      test("includes the namespace and the end of the name", () => {
+         assert.strictEqual(macroAtPosition(document, new vscode.Position(0, 27))?.name, "ns/macro");
+         assert.strictEqual(macroAtPosition(document, new vscode.Position(0, 8))?.name, "emph");
+      });
+
+      test("skips text and escaped backslashes", () => {
+         assert.strictEqual(macroAtPosition(document, new vscode.Position(0, 12)), undefined);
+         assert.strictEqual(macroAtPosition(document, new vscode.Position(0, 19)), undefined);
+      });
+   });
+
+   suite("macroSignature", () => {
+      test("lists the parameters in brackets", () => {
+         const [binary, constant] = findMacroDefinitions("\\def\\pair[x][y]{(\\x, \\y)} \\def\\one{1}");
+         assert.strictEqual(macroSignature(binary), "\\pair[x][y]");
+         assert.strictEqual(macroSignature(constant), "\\one");
+      });
+   });
+});
@@ -0,0 +1,81 @@
+import * as assert from "assert";
+import * as http from "http";
+import { mkdtemp, mkdir, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { basename, join } from "path";
+import { OutputServer } from "../../preview-panel";
+
+/**
+ * GET `path` from the server on `port`
+ */
+function get(port: number, path: string, headers: http.OutgoingHttpHeaders = {}): Promise<{ status?: number; type?: string; body: string }> {
+   return new Promise((resolve, reject) => {
+      http.get({ host: "127.0.0.1", port, path, headers }, response => {
+         let body = "";
+         response.setEncoding("utf-8");
+         response.on("data", chunk => body += chunk);
+         response.on("end", () => resolve({ status: response.statusCode, type: response.headers["content-type"], body }));
+      }).on("error", reject);
+   });
+}
+
+suite("preview-panel", () => {
+   suite("OutputServer", () => {
+      let directory: string;
+      let server: OutputServer;
+      let port: number;
+      let navigations: string[];
+
+      setup(async () => {
+         directory = await mkdtemp(join(tmpdir(), "forester-output-"));
+         await mkdir(join(directory, "jms-0001"));
+         await writeFile(join(directory, "jms-0001", "index.xml"), "<tree/>");
+         await writeFile(join(directory, "style.css"), "body {}");
+         // A file next to the output directory, which mustn't be served
+         await writeFile(`${directory}-secret`, "secret");
+
+         navigations = [];
+         server = new OutputServer(directory, path => navigations.push(path));
+         port = await server.listen();
+      });
+
+      teardown(async () => {
+         server.dispose();
+         await rm(`${directory}-secret`, { force: true });
+         await rm(directory, { recursive: true, force: true });
+      });
+
+      test("serves files with their content type", async () => {
+         assert.deepStrictEqual(await get(port, "/style.css"), { status: 200, type: "text/css; charset=utf-8", body: "body {}" });
+      });
+
+      test("serves the index of a directory", async () => {
+         const response = await get(port, "/jms-0001/");
+         assert.strictEqual(response.status, 200);
+         assert.strictEqual(response.body, "<tree/>");
+      });
+
+      test("answers missing files with 404 and malformed paths with 400", async () => {
+         assert.strictEqual((await get(port, "/jms-9999/")).status, 404);
+         assert.strictEqual((await get(port, "/%E0%A4%A")).status, 400);
+      });
+
+      test("serves nothing outside the output directory", async () => {
+         const response = await get(port, `/..%2f${basename(directory)}-secret`);
+         assert.strictEqual(response.status, 403);
+      });
+
+      test("reports page loads of the preview, but not the resources they pull in", async () => {
+         await get(port, "/jms-0001/", { "sec-fetch-dest": "iframe" });
+         await get(port, "/style.css", { "sec-fetch-dest": "style" });
+         assert.deepStrictEqual(navigations, ["/jms-0001/"]);
+      });
+   });
+
+   test("a server disposed while starting doesn't leave anyone waiting", async () => {
+      const server = new OutputServer(tmpdir(), () => undefined);
+      const listening = server.listen();
+      server.dispose();
+      await assert.rejects(listening, /closed while starting/);
+   });
+});
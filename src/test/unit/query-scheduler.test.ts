@@ -0,0 +1,112 @@
+import * as assert from "assert";
+import type * as vscode from "vscode";
+import { QueryScheduler } from "../../query-scheduler";
+
+/**
+ * A scheduler whose queries only finish when the test says so
+ */
+function scheduler() {
+   const runs: { token: vscode.CancellationToken; options: string; finish: (value: string) => void; fail: (error: Error) => void }[] = [];
+   const queries = new QueryScheduler<string, string>(
+      (token, options) => new Promise((resolve, reject) => runs.push({ token, options, finish: resolve, fail: reject })),
+      () => "cancelled",
+   );
+   return { queries, runs };
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+suite("query-scheduler", () => {
+   test("coalesces a burst of scheduled queries into one run of the last options", async () => {
+      const { queries, runs } = scheduler();
+      const results = [queries.schedule(5, "a"), queries.schedule(5, "b"), queries.schedule(5, "c")];
+      assert.strictEqual(queries.isBusy, true);
+
+      await delay(20);
+      assert.deepStrictEqual(runs.map(run => run.options), ["c"]);
+
+      runs[0].finish("forest");
+      assert.deepStrictEqual(await Promise.all(results), ["forest", "forest", "forest"]);
+      assert.strictEqual(queries.isBusy, false);
+   });
+
+   test("a new query supersedes the one in flight and everyone gets its result", async () => {
+      const { queries, runs } = scheduler();
+      const first = queries.runNow("a");
+      const second = queries.runNow("b");
+
+      assert.strictEqual(runs.length, 2);
+      assert.strictEqual(runs[0].token.isCancellationRequested, true);
+      assert.strictEqual(runs[1].token.isCancellationRequested, false);
+
+      // The superseded query finishing late is ignored
+      runs[0].finish("stale");
+      runs[1].finish("fresh");
+      assert.deepStrictEqual(await Promise.all([first, second]), ["fresh", "fresh"]);
+   });
+
+   test("waiters are left for a query queued while one is in flight", async () => {
+      const { queries, runs } = scheduler();
+      const first = queries.runNow("a");
+      const queued = queries.schedule(5, "b");
+
+      let settled = false;
+      first.then(() => settled = true);
+      runs[0].finish("older");
+      await delay(0);
+      assert.strictEqual(settled, false);
+
+      await delay(20);
+      runs[1].finish("newer");
+      assert.deepStrictEqual(await Promise.all([first, queued]), ["newer", "newer"]);
+   });
+
+   test("wait() gets the result of the query in flight", async () => {
+      const { queries, runs } = scheduler();
+      queries.runNow("a");
+      const waiting = queries.wait();
+      runs[0].finish("forest");
+      assert.strictEqual(await waiting, "forest");
+   });
+
+   test("a failed query rejects its waiters", async () => {
+      const { queries, runs } = scheduler();
+      const result = queries.runNow("a");
+      runs[0].fail(new Error("forester exited with code 1"));
+      await assert.rejects(result, /exited with code 1/);
+      assert.strictEqual(queries.isBusy, false);
+   });
+
+   test("cancel() stops the query and releases waiters with the cancel value", async () => {
+      const { queries, runs } = scheduler();
+      const result = queries.runNow("a");
+      queries.cancel();
+
+      assert.strictEqual(runs[0].token.isCancellationRequested, true);
+      assert.strictEqual(queries.isBusy, false);
+      assert.strictEqual(await result, "cancelled");
+
+      // Its late result goes nowhere
+      runs[0].finish("forest");
+      await delay(0);
+   });
+
+   test("cancel() also drops a query that hasn't started yet", async () => {
+      const { queries, runs } = scheduler();
+      const result = queries.schedule(5, "a");
+      queries.cancel();
+
+      assert.strictEqual(await result, "cancelled");
+      await delay(20);
+      assert.strictEqual(runs.length, 0);
+   });
+
+   test("dispose() releases anyone still waiting", async () => {
+      const { queries, runs } = scheduler();
+      const result = queries.runNow("a");
+      queries.dispose();
+
+      assert.strictEqual(runs[0].token.isCancellationRequested, true);
+      assert.strictEqual(await result, "cancelled");
+   });
+});
@@ -0,0 +1,47 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import { textDocument } from "./text-document";
+import { ForesterRefactorCodeActionProvider } from "../../refactor-actions";
+
+const provider = new ForesterRefactorCodeActionProvider();
+
+/**
+ * The actions offered for the text between offsets `start` and `end`, as [title, command, arguments] triples
+ */
+function actions(text: string, start: number, end = start) {
+   const document = textDocument(text);
+   const range = new vscode.Range(document.positionAt(start), document.positionAt(end));
+   return provider.provideCodeActions(document, range).map(action => [action.title, action.command?.command, action.command?.arguments]);
+}
+
+suite("refactor-actions", () => {
+   suite("ForesterRefactorCodeActionProvider", () => {
+      const text = "\\p{Some text}\n\\transclude{jms-0001}\n\\ref{jms-0002}";
+
+      test("offers to extract a non-empty selection", () => {
+         const [[title, command, args]] = actions(text, 3, 12);
+         assert.strictEqual(title, "Extract selection to new tree");
+         assert.strictEqual(command, "forester.extractToNewTree");
+         assert.strictEqual((args![1] as vscode.Range).end.character, 12);
+      });
+
+      test("doesn't offer to extract blank selections", () => {
+         assert.deepStrictEqual(actions(text, 5), []);
+         assert.deepStrictEqual(actions("\\p{}\n\n\\p{}", 4, 6), []);
+      });
+
+      test("offers to inline a transclusion the cursor is on, with its whole extent", () => {
+         const [[title, command, args]] = actions(text, text.indexOf("\\transclude") + 2);
+         assert.strictEqual(title, "Inline transclusion of 'jms-0001'");
+         assert.strictEqual(command, "forester.inlineTransclusion");
+
+         const [, treeId, range] = args as [vscode.Uri, string, vscode.Range];
+         assert.strictEqual(treeId, "jms-0001");
+         assert.deepStrictEqual([range.start.line, range.start.character, range.end.line, range.end.character], [1, 0, 1, 21]);
+      });
+
+      test("only inlines transclusions", () => {
+         assert.deepStrictEqual(actions(text, text.indexOf("jms-0002")), []);
+      });
+   });
+});
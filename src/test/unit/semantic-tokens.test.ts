@@ -0,0 +1,72 @@
+import * as assert from "assert";
+import { findSemanticTokens, TokenScope } from "../../semantic-tokens";
+
+const FOREST: TokenScope = {
+   knownIds: new Set(["index", "jms-0001"]),
+   foreignIds: new Set(["foreign-0001"]),
+   macroScopes: new Map(),
+};
+
+/**
+ * The tokens of `text`, as the text they cover with their type and modifiers
+ */
+function tokens(text: string, scope: Partial<TokenScope> = {}) {
+   return findSemanticTokens(text, { ...FOREST, ...scope })
+      .map(({ start, end, type, modifiers }) => [text.slice(start, end), type, ...modifiers].join(" "));
+}
+
+suite("semantic-tokens", () => {
+   suite("findSemanticTokens", () => {
+      test("tells resolved, foreign and broken references apart", () => {
+         assert.deepStrictEqual(tokens("[[jms-0001]] [[foreign-0001]] [[jms-9999]] [file](notes.pdf)"), [
+            "jms-0001 treeReference",
+            "foreign-0001 treeReference foreign",
+            "jms-9999 treeReference unresolved",
+         ]);
+      });
+
+      test("doesn't call anything unresolved without a forest", () => {
+         assert.deepStrictEqual(tokens("[[jms-9999]] \\undefined", { knownIds: new Set() }), [
+            "jms-9999 treeReference",
+            "\\undefined macro",
+         ]);
+      });
+
+      test("marks metadata, primitives and their namespaces", () => {
+         assert.deepStrictEqual(tokens("\\title{T} \\author/literal{A} \\p{x} \\query/tag{t}"), [
+            "\\title metadata",
+            "\\author/literal metadata",
+            "\\p macro defaultLibrary",
+            "\\query/tag macro defaultLibrary",
+         ]);
+      });
+
+      test("resolves macros from where they come into scope", () => {
+         const text = "\\early \\import{macros} \\late";
+         assert.deepStrictEqual(tokens(text, { macroScopes: new Map([["early", 7], ["late", 7]]) }), [
+            "\\early macro unresolved",
+            "\\import macro defaultLibrary",
+            "macros treeReference unresolved",
+            "\\late macro",
+         ]);
+      });
+
+      test("marks definitions and resolves their local bindings", () => {
+         assert.deepStrictEqual(tokens("\\def\\pair[x]{\\x} \\let\\y{1} \\fun[z]{\\z}"), [
+            "\\def macro defaultLibrary",
+            "\\pair macro declaration",
+            "\\x macro",
+            "\\let macro defaultLibrary",
+            "\\y macro",
+            "\\fun macro defaultLibrary",
+            "\\z macro",
+         ]);
+      });
+
+      test("leaves TeX, comments and escaped backslashes alone", () => {
+         assert.deepStrictEqual(tokens("#{\\alpha} \\tex{\\usepackage{x}}{\\beta} % \\comment\n\\\\notamacro"), [
+            "\\tex macro defaultLibrary",
+         ]);
+      });
+   });
+});
@@ -0,0 +1,68 @@
+import * as assert from "assert";
+import { readFileSync } from "fs";
+import { join } from "path";
+
+interface ProblemPattern {
+   regexp: string;
+   [group: string]: string | number;
+}
+
+const { contributes } = JSON.parse(readFileSync(join(__dirname, "..", "..", "..", "package.json"), "utf-8"));
+const matchers: { name: string; pattern: ProblemPattern | ProblemPattern[] }[] = contributes.problemMatchers;
+
+/**
+ * What the problem matcher `name` reads from `lines`, one line per pattern, as VS Code would
+ */
+function match(name: string, lines: string[]): { [property: string]: string | undefined } | null {
+   const matcher = matchers.find(candidate => candidate.name === name)!;
+   const patterns = Array.isArray(matcher.pattern) ? matcher.pattern : [matcher.pattern];
+
+   const problem: { [property: string]: string | undefined } = {};
+   for (const [index, pattern] of patterns.entries()) {
+      const groups = new RegExp(pattern.regexp).exec(lines[index]);
+      if (!groups) {
+         return null;
+      }
+      for (const [property, group] of Object.entries(pattern)) {
+         if (typeof group === "number" && groups[group] !== undefined) {
+            problem[property] = groups[group];
+         }
+      }
+   }
+   return problem;
+}
+
+suite("tasks", () => {
+   suite("problem matchers", () => {
+      test("$forester reads asai error blocks", () => {
+         assert.deepStrictEqual(match("forester", [
+            "■ trees/jms-0001.tree",
+            "5 | \\transclude{jms-9999}",
+            "  ^ Could not find tree jms-9999",
+         ]), { file: "trees/jms-0001.tree", line: "5", message: "Could not find tree jms-9999" });
+      });
+
+      test("$forester takes the range of the location line", () => {
+         assert.deepStrictEqual(match("forester", [
+            " ■ trees/jms-0002.tree:3:4-3:9",
+            "3 | \\p{oops",
+            "  ^ unexpected token",
+         ]), { file: "trees/jms-0002.tree", line: "3", column: "4", endLine: "3", endColumn: "9", message: "unexpected token" });
+      });
+
+      test("$forester-inline reads file:line:col errors", () => {
+         assert.deepStrictEqual(match("forester-inline", ["trees/jms-0003.tree:2:5: Unbound variable \\foo"]), {
+            file: "trees/jms-0003.tree",
+            line: "2",
+            column: "5",
+            message: "Unbound variable \\foo",
+         });
+         assert.deepStrictEqual(match("forester-inline", ["trees/jms-0003.tree:2:5-9: Unbound variable \\foo"])?.endColumn, "9");
+      });
+
+      test("ignores other output", () => {
+         assert.strictEqual(match("forester", ["Rendered 12 trees"]), null);
+         assert.strictEqual(match("forester-inline", ["Rendered 12 trees"]), null);
+      });
+   });
+});
@@ -0,0 +1,42 @@
+/**
+ * text-document.ts - An in-memory TextDocument for unit tests
+ *
+ * Covers the parts of `vscode.TextDocument` the providers read: the text, by
+ * range or line, and conversion between offsets and positions.
+ */
+
+import * as vscode from "vscode";
+
+export function textDocument(text: string, fileName = "/forest/trees/test.tree"): vscode.TextDocument {
+   const lines = text.split("\n");
+   const lineStarts = lines.reduce((starts, line) => [...starts, starts[starts.length - 1] + line.length + 1], [0]);
+
+   const positionAt = (offset: number) => {
+      const clamped = Math.max(0, Math.min(offset, text.length));
+      const line = lineStarts.findIndex(start => start > clamped) - 1;
+      const row = line < 0 ? lines.length - 1 : line;
+      return new vscode.Position(row, clamped - lineStarts[row]);
+   };
+   const offsetAt = (position: vscode.Position) => Math.min(lineStarts[position.line] + position.character, text.length);
+
+   const lineAt = (lineOrPosition: number | vscode.Position) => {
+      const line = typeof lineOrPosition === "number" ? lineOrPosition : lineOrPosition.line;
+      return {
+         lineNumber: line,
+         text: lines[line],
+         range: new vscode.Range(line, 0, line, lines[line].length),
+         rangeIncludingLineBreak: line + 1 < lines.length ? new vscode.Range(line, 0, line + 1, 0) : new vscode.Range(line, 0, line, lines[line].length),
+      };
+   };
+
+   return {
+      uri: vscode.Uri.file(fileName),
+      fileName,
+      isClosed: false,
+      lineCount: lines.length,
+      getText: (range?: vscode.Range) => range ? text.slice(offsetAt(range.start), offsetAt(range.end)) : text,
+      positionAt,
+      offsetAt,
+      lineAt,
+   } as unknown as vscode.TextDocument;
+}
@@ -0,0 +1,68 @@
+import * as assert from "assert";
+import { formatTree } from "../../tree-formatter";
+
+const SPACES = { insertSpaces: true, tabSize: 2 };
+
+const format = (lines: string[], options = SPACES) => formatTree(lines.join("\n"), options);
+
+suite("tree-formatter", () => {
+   suite("formatTree", () => {
+      test("puts the header in the order new trees are written in", () => {
+         assert.strictEqual(format([
+            "\\title{Title}",
+            "\\tag{b}",
+            "\\author{jms}",
+            "\\taxon{Definition}",
+            "\\import{macros}",
+            "\\tag{a}",
+            "\\date{2024-01-01}",
+            "\\p{Body}",
+         ]), [
+            "\\import{macros}",
+            "",
+            "\\date{2024-01-01}",
+            "\\author{jms}",
+            "",
+            "\\taxon{Definition}",
+            "\\title{Title}",
+            "\\tag{b}",
+            "\\tag{a}",
+            "",
+            "\\p{Body}",
+            "",
+         ].join("\n"));
+      });
+
+      test("indents one level per open brace", () => {
+         assert.strictEqual(format([
+            "\\ul{",
+            "\\li{",
+            "\\p{text}",
+            "}",
+            "      }",
+         ]), "\\ul{\n  \\li{\n    \\p{text}\n  }\n}\n");
+         assert.strictEqual(format(["\\p{", "text", "}"], { insertSpaces: false, tabSize: 4 }), "\\p{\n\ttext\n}\n");
+      });
+
+      test("trims trailing whitespace and collapses blank lines", () => {
+         assert.strictEqual(format(["", "\\p{a}   ", "", "", "", "\\p{b}", "", ""]), "\\p{a}\n\n\\p{b}\n");
+      });
+
+      test("leaves math and verbatim blocks alone", () => {
+         const math = ["\\p{", "##{", "   a {b}", "}", "}"];
+         assert.strictEqual(format(math), ["\\p{", "  ##{", "   a {b}", "}", "}", ""].join("\n"));
+
+         const verbatim = ["\\pre{\\startverb", "    {  ", "\\stopverb}"];
+         assert.strictEqual(format(verbatim), [...verbatim, ""].join("\n"));
+      });
+
+      test("uses the given line ending", () => {
+         assert.strictEqual(formatTree("\\title{A}\r\n\\p{B}\r\n", SPACES, "\r\n"), "\\title{A}\r\n\r\n\\p{B}\r\n");
+      });
+
+      test("is stable", () => {
+         const once = format(["\\taxon{T}", "\\date{d}", "\\p{", "\\em{x}", "}"]);
+         assert.strictEqual(formatTree(once, SPACES), once);
+      });
+   });
+});
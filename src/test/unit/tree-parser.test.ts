@@ -0,0 +1,130 @@
+import * as assert from "assert";
+import { findMacroDefinitions, findTreeReferences, parseTreeSource, referenceExtent, stripTreeMetadata } from "../../tree-parser";
+
+suite("tree-parser", () => {
+   suite("parseTreeSource", () => {
+      test("reads the tree's own metadata", () => {
+         const parsed = parseTreeSource([
+            "\\title{Some \\em{emphasised} title}",
+            "\\taxon{Definition}",
+            "\\tag{algebra}",
+            "\\tag{topology}",
+            "\\meta{doi}{10.1000/182}",
+            "\\p{Body}",
+         ].join("\n"));
+
+         assert.strictEqual(parsed.title, "Some emphasised title");
+         assert.strictEqual(parsed.taxon, "Definition");
+         assert.deepStrictEqual(parsed.tags, ["algebra", "topology"]);
+         assert.deepStrictEqual(parsed.metas, { doi: "10.1000/182" });
+      });
+
+      test("ignores the metadata of inline subtrees", () => {
+         const parsed = parseTreeSource([
+            "\\subtree{",
+            "  \\title{Inner}",
+            "  \\tag{inner}",
+            "}",
+            "\\title{Outer}",
+         ].join("\n"));
+
+         assert.strictEqual(parsed.title, "Outer");
+         assert.deepStrictEqual(parsed.tags, []);
+      });
+
+      test("ignores commented out and verbatim metadata", () => {
+         const parsed = parseTreeSource([
+            "% \\title{Commented}",
+            "\\startverb \\taxon{Verbatim} \\stopverb",
+            "\\title{Real}",
+         ].join("\n"));
+
+         assert.strictEqual(parsed.title, "Real");
+         assert.strictEqual(parsed.taxon, null);
+      });
+
+      test("keeps the first title", () => {
+         assert.strictEqual(parseTreeSource("\\title{First}\n\\title{Second}").title, "First");
+      });
+   });
+
+   suite("findTreeReferences", () => {
+      test("finds every kind of reference, in order, with the offsets of the ID", () => {
+         const text = "\\import{base}\n\\transclude{jms-0001} \\ref{jms-0002} [text](jms-0003) [[jms-0004]] \\export{lib}";
+         const references = findTreeReferences(text);
+
+         assert.deepStrictEqual(
+            references.map(({ treeId, type }) => [treeId, type]),
+            [["base", "import"], ["jms-0001", "transclude"], ["jms-0002", "ref"], ["jms-0003", "link"], ["jms-0004", "link"], ["lib", "export"]],
+         );
+         for (const reference of references) {
+            assert.strictEqual(text.slice(reference.start, reference.end), reference.treeId);
+         }
+      });
+
+      test("skips external links, empty IDs, comments and verbatim blocks", () => {
+         const text = [
+            "[site](https://example.com) \\transclude{ }",
+            "% \\transclude{commented}",
+            "\\startverb [[verbatim]] \\stopverb",
+         ].join("\n");
+
+         assert.deepStrictEqual(findTreeReferences(text), []);
+      });
+
+      test("trims whitespace around the ID", () => {
+         const text = "\\transclude{ jms-0001 }";
+         const [reference] = findTreeReferences(text);
+
+         assert.strictEqual(reference.treeId, "jms-0001");
+         assert.strictEqual(text.slice(reference.start, reference.end), "jms-0001");
+      });
+   });
+
+   suite("findMacroDefinitions", () => {
+      test("reads the name, parameters and body", () => {
+         const text = "\\def\\pair[x][~y]{(\\x, \\y)}";
+         const [definition] = findMacroDefinitions(text);
+
+         assert.strictEqual(definition.name, "pair");
+         assert.deepStrictEqual(definition.parameters, ["x", "~y"]);
+         assert.strictEqual(definition.body, "(\\x, \\y)");
+         assert.strictEqual(text.slice(definition.start, definition.end), "pair");
+      });
+   });
+
+   suite("referenceExtent", () => {
+      const extent = (text: string) => {
+         const { start, end, replacement } = referenceExtent(text, findTreeReferences(text)[0]);
+         return [text.slice(start, end), replacement];
+      };
+
+      test("covers the whole command", () => {
+         assert.deepStrictEqual(extent("see \\transclude{ jms-0001 } here"), ["\\transclude{ jms-0001 }", ""]);
+         assert.deepStrictEqual(extent("\\ref{jms-0001}."), ["\\ref{jms-0001}", ""]);
+      });
+
+      test("covers wiki links", () => {
+         assert.deepStrictEqual(extent("see [[jms-0001]] here"), ["[[jms-0001]]", ""]);
+      });
+
+      test("keeps the text of markdown links", () => {
+         assert.deepStrictEqual(extent("see [the \\em{groups}](jms-0001) here"), ["[the \\em{groups}](jms-0001)", "the \\em{groups}"]);
+      });
+   });
+
+   suite("stripTreeMetadata", () => {
+      test("removes the tree's own metadata lines and keeps the body", () => {
+         const text = [
+            "\\title{Title}",
+            "\\date{2024-01-01}",
+            "\\meta{key}{value}",
+            "\\p{Body \\em{text}}",
+            "\\subtree{\\title{Inner}}",
+            "",
+         ].join("\n");
+
+         assert.strictEqual(stripTreeMetadata(text), "\\p{Body \\em{text}}\n\\subtree{\\title{Inner}}\n");
+      });
+   });
+});
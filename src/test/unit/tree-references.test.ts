@@ -0,0 +1,29 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import { textDocument } from "./text-document";
+import { treeIdAtPosition } from "../../tree-references";
+
+suite("tree-references", () => {
+   suite("treeIdAtPosition", () => {
+      const text = "\\p{See \\ref{jms-0002} and [groups](jms-0001).}";
+      const document = textDocument(text, "/forest/trees/index.tree");
+      const at = (offset: number, linksOnly?: boolean) => treeIdAtPosition(document, document.positionAt(offset), linksOnly);
+
+      test("finds the reference under the cursor, with the range of its ID", () => {
+         const target = at(text.indexOf("jms-0002") + 3);
+         assert.strictEqual(target?.treeId, "jms-0002");
+         assert.deepStrictEqual([target.range?.start.character, target.range?.end.character], [12, 20]);
+         assert.strictEqual(at(text.indexOf("jms-0001"))?.treeId, "jms-0001");
+      });
+
+      test("means the tree itself anywhere else in a tree file", () => {
+         assert.deepStrictEqual(at(1), { treeId: "index" });
+         assert.strictEqual(at(1, true), undefined);
+      });
+
+      test("finds nothing outside references of other files", () => {
+         const markdown = textDocument("Some text", "/forest/README.md");
+         assert.strictEqual(treeIdAtPosition(markdown, new vscode.Position(0, 2)), undefined);
+      });
+   });
+});
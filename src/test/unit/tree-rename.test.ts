@@ -0,0 +1,32 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import type { WorkspaceEdit as RecordedEdit } from "./vscode";
+import { buildRenameEdit } from "../../tree-rename";
+
+suite("tree-rename", () => {
+   suite("buildRenameEdit", () => {
+      test("rewrites every reference, then renames the file", () => {
+         const index = vscode.Uri.file("/forest/trees/index.tree");
+         const tree = vscode.Uri.file("/forest/trees/jms-0001.tree");
+         const references = [
+            new vscode.Location(index, new vscode.Range(2, 12, 2, 20)),
+            new vscode.Location(tree, new vscode.Range(5, 6, 5, 14)),
+         ];
+
+         const edit = buildRenameEdit(tree.fsPath, "/forest/trees/groups.tree", "groups", references) as unknown as RecordedEdit;
+
+         assert.deepStrictEqual(edit.operations.map(operation => "replace" in operation
+            ? ["replace", operation.replace.fsPath, operation.range.start.line, operation.range.start.character, operation.newText]
+            : ["rename", operation.rename.fsPath, operation.to.fsPath]), [
+            ["replace", "/forest/trees/index.tree", 2, 12, "groups"],
+            ["replace", "/forest/trees/jms-0001.tree", 5, 6, "groups"],
+            ["rename", "/forest/trees/jms-0001.tree", "/forest/trees/groups.tree"],
+         ]);
+      });
+
+      test("still renames a tree nothing refers to", () => {
+         const edit = buildRenameEdit("/forest/trees/jms-0001.tree", "/forest/trees/jms-0002.tree", "jms-0002", []) as unknown as RecordedEdit;
+         assert.strictEqual(edit.operations.length, 1);
+      });
+   });
+});
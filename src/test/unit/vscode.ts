@@ -0,0 +1,123 @@
+/**
+ * vscode.ts - A stand-in for the `vscode` module in unit tests
+ *
+ * The `vscode` module only exists inside the extension host. Unit tests run
+ * under plain mocha, which loads this file first (see .mocharc.json): it
+ * answers every `import ... from "vscode"` with the value types below, so
+ * the pure functions of a module can be tested without starting VS Code.
+ * Anything that needs the real editor belongs in the integration tests.
+ */
+
+import Module = require("module");
+
+const loader = Module as unknown as { _resolveFilename(request: string, ...rest: unknown[]): string };
+const resolveFilename = loader._resolveFilename;
+loader._resolveFilename = function (request, ...rest) {
+   return request === "vscode" ? __filename : resolveFilename.call(this, request, ...rest);
+};
+
+export class Position {
+   constructor(public readonly line: number, public readonly character: number) { }
+}
+
+export class Range {
+   public readonly start: Position;
+   public readonly end: Position;
+
+   constructor(start: Position | number, end: Position | number, endLine?: number, endCharacter?: number) {
+      if (typeof start === "number" && typeof end === "number") {
+         this.start = new Position(start, end);
+         this.end = new Position(endLine!, endCharacter!);
+      } else {
+         this.start = start as Position;
+         this.end = end as Position;
+      }
+   }
+
+   get isEmpty() {
+      return this.start.line === this.end.line && this.start.character === this.end.character;
+   }
+
+   get isSingleLine() {
+      return this.start.line === this.end.line;
+   }
+}
+
+export enum DiagnosticSeverity { Error, Warning, Information, Hint }
+
+export class CancellationTokenSource {
+   public readonly token = { isCancellationRequested: false };
+
+   cancel() {
+      this.token.isCancellationRequested = true;
+   }
+
+   dispose() { }
+}
+
+export class CodeActionKind {
+   static readonly QuickFix = new CodeActionKind("quickfix");
+   static readonly RefactorExtract = new CodeActionKind("refactor.extract");
+   static readonly RefactorInline = new CodeActionKind("refactor.inline");
+
+   private constructor(public readonly value: string) { }
+}
+
+export class Uri {
+   private constructor(public readonly scheme: string, public readonly fsPath: string) { }
+
+   static file(path: string) {
+      return new Uri("file", path);
+   }
+
+   toString() {
+      return `${this.scheme}://${this.fsPath}`;
+   }
+}
+
+export class Location {
+   public readonly range: Range;
+
+   constructor(public readonly uri: Uri, rangeOrPosition: Range | Position) {
+      this.range = rangeOrPosition instanceof Position ? new Range(rangeOrPosition, rangeOrPosition) : rangeOrPosition;
+   }
+}
+
+/**
+ * Records its operations, in order, for tests to inspect
+ */
+export class WorkspaceEdit {
+   public readonly operations: ({ replace: Uri; range: Range; newText: string } | { rename: Uri; to: Uri })[] = [];
+
+   replace(uri: Uri, range: Range, newText: string) {
+      this.operations.push({ replace: uri, range, newText });
+   }
+
+   renameFile(oldUri: Uri, newUri: Uri) {
+      this.operations.push({ rename: oldUri, to: newUri });
+   }
+}
+
+export class CodeAction {
+   command?: { title: string; command: string; arguments?: unknown[] };
+
+   constructor(public readonly title: string, public readonly kind?: CodeActionKind) { }
+}
+
+export enum SymbolKind { File, Module, Namespace, Package, Class, Method, Property, Field, Constructor, Enum, Interface, Function, Variable, Constant, String }
+
+export class DocumentSymbol {
+   children: DocumentSymbol[] = [];
+
+   constructor(
+      public readonly name: string,
+      public readonly detail: string,
+      public readonly kind: SymbolKind,
+      public readonly range: Range,
+      public readonly selectionRange: Range,
+   ) { }
+}
+
+export class SemanticTokensLegend {
+   constructor(public readonly tokenTypes: string[], public readonly tokenModifiers: string[] = []) { }
+}
@@ -0,0 +1,36 @@
+import * as assert from "assert";
+import type { ForesterTree } from "../../get-forest";
+import { findMatchingTrees } from "../../workspace-symbols";
+
+function tree(uri: string, fields: Partial<ForesterTree> = {}): ForesterTree {
+   return { uri, title: null, taxon: null, tags: [], route: `${uri}.xml`, metas: {}, sourcePath: `/forest/trees/${uri}.tree`, ...fields };
+}
+
+suite("workspace-symbols", () => {
+   suite("findMatchingTrees", () => {
+      const forest = [
+         tree("jms-0001", { title: "Groups", taxon: "Definition" }),
+         tree("jms-0002", { title: "Rings", tags: ["algebra"] }),
+         tree("abc-0001", { title: "Topological spaces", taxon: "Definition" }),
+         tree("foreign-0001", { title: "Groups elsewhere", sourcePath: "" }),
+      ];
+      const ids = (query: string) => findMatchingTrees(forest, query).map(tree => tree.uri);
+
+      test("matches titles, IDs, taxa and tags, ignoring case", () => {
+         assert.deepStrictEqual(ids("groups"), ["jms-0001"]);
+         assert.deepStrictEqual(ids("JMS"), ["jms-0001", "jms-0002"]);
+         assert.deepStrictEqual(ids("definition"), ["jms-0001", "abc-0001"]);
+         assert.deepStrictEqual(ids("algebra"), ["jms-0002"]);
+      });
+
+      test("matches the characters of the query in order, ignoring spaces", () => {
+         assert.deepStrictEqual(ids("tpspc"), ["abc-0001"]);
+         assert.deepStrictEqual(ids("rings alg"), ["jms-0002"]);
+         assert.deepStrictEqual(ids("cpsopt"), []);
+      });
+
+      test("leaves out trees without a source", () => {
+         assert.ok(!ids("").includes("foreign-0001"));
+      });
+   });
+});
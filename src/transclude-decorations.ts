@@ -95,7 +95,7 @@ export class TranscludeDecorationProvider {
       }
 
       // Check if decorations are enabled
-      const config = vscode.workspace.getConfiguration('forester');
+      const config = vscode.workspace.getConfiguration('forester', editor.document.uri);
       const decorationsEnabled = config.get<boolean>('decorations.enabled', true);
 
       if (!decorationsEnabled) {
@@ -125,7 +125,7 @@ export class TranscludeDecorationProvider {
          }
 
          // Get the title for this tree ID
-         const title = await this.getTreeTitle(treeId);
+         const title = await this.getTreeTitle(treeId, editor.document.uri);
 
          if (title && title !== treeId) {  // Only show if we have a meaningful title
             const decoration: vscode.DecorationOptions = {
@@ -143,18 +143,21 @@ export class TranscludeDecorationProvider {
       editor.setDecorations(this.decorationType, decorations);
    }
 
-   private async getTreeTitle(treeId: string): Promise<string | null> {
+   private async getTreeTitle(treeId: string, uri: vscode.Uri): Promise<string | null> {
       try {
-         const tree = await getTree(treeId);
+         const tree = await getTree(treeId, uri);
          if (!tree) return null;
 
+         // Mark trees that come from a foreign forest
+         const marker = tree.foreign ? '↗ ' : '';
+
          // Format like TOC: include taxon abbreviation if present
          if (tree.taxon) {
             const abbreviation = getTaxonAbbreviation(tree.taxon);
-            return `${abbreviation}: ${tree.title || treeId}`;
+            return `${marker}${abbreviation}: ${tree.title || treeId}`;
          }
 
-         return tree.title || null;
+         return tree.title ? `${marker}${tree.title}` : null;
       } catch (error) {
          console.error(`Failed to get title for tree ${treeId}:`, error);
          return null;
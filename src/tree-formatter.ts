@@ -0,0 +1,212 @@
+/**
+ * tree-formatter.ts - Format Document / Format Selection for .tree files
+ *
+ * Puts the metadata header in the order new trees are created with (imports,
+ * then date and authors, then taxon, title and the rest), indents nested
+ * arguments by one level per open brace, trims trailing whitespace and
+ * collapses runs of blank lines. `\startverb` blocks and `#{...}`/`##{...}`
+ * math are left exactly as they are.
+ */
+
+import * as vscode from 'vscode';
+import { findMathRegions, maskInactiveRegions, METADATA_COMMANDS, readBracedArgument } from './tree-parser';
+
+// Header commands in the order they're written, in blank-line separated groups (see addTreeMetadata)
+const DATE_AND_AUTHORS = ['date', 'author', 'contributor'];
+const HEADER_GROUPS = [
+   ['import', 'export'],
+   DATE_AND_AUTHORS,
+   METADATA_COMMANDS.filter(command => !DATE_AND_AUTHORS.includes(command)),
+];
+
+/**
+ * The position of a header line's command in HEADER_GROUPS, or null if the line isn't
+ * a single metadata command with nothing else on it
+ */
+function headerCommand(line: string): { group: number; index: number } | null {
+   const match = /^\\([A-Za-z]+)(?=\{)/.exec(line);
+   if (!match) {
+      return null;
+   }
+
+   const group = HEADER_GROUPS.findIndex(commands => commands.includes(match[1]));
+   if (group < 0) {
+      return null;
+   }
+
+   // All of its arguments have to close on the same line
+   let position = match[0].length;
+   while (line[position] === '{') {
+      const argument = readBracedArgument(line, position);
+      if (!argument) {
+         return null;
+      }
+      position = argument.end;
+   }
+   if (position !== line.length) {
+      return null;
+   }
+
+   return { group, index: HEADER_GROUPS[group].indexOf(match[1]) };
+}
+
+/**
+ * Sort the metadata lines at the top of a tree into their groups
+ */
+function reorderHeader(lines: string[]): string[] {
+   const header: { line: string; group: number; index: number }[] = [];
+   let end = 0;
+   for (let i = 0; i < lines.length; i++) {
+      const line = lines[i].trim();
+      if (!line) {
+         continue;
+      }
+      const command = headerCommand(line);
+      if (!command) {
+         break;
+      }
+      header.push({ line, ...command });
+      end = i + 1;
+   }
+   if (header.length === 0) {
+      return lines;
+   }
+
+   // Array.prototype.sort is stable, so repeated commands (tags, imports...) keep their order
+   header.sort((a, b) => a.group - b.group || a.index - b.index);
+
+   const result: string[] = [];
+   header.forEach((entry, i) => {
+      if (i > 0 && entry.group !== header[i - 1].group) {
+         result.push('');
+      }
+      result.push(entry.line);
+   });
+
+   const rest = lines.slice(end);
+   while (rest.length > 0 && !rest[0].trim()) {
+      rest.shift();
+   }
+   return rest.length > 0 ? [...result, '', ...rest] : result;
+}
+
+/**
+ * Re-indent and tidy the lines of a tree. Returns the new text of every line,
+ * or null for blank lines that should go.
+ */
+function layoutLines(text: string, indentUnit: string): (string | null)[] {
+   const source = maskInactiveRegions(text);
+
+   // Regions to leave alone: verbatim blocks and math
+   const verbatim: { start: number; end: number }[] = [];
+   const verbatimPattern = /\\startverb[\s\S]*?(?:\\stopverb|$)/g;
+   let match;
+   while ((match = verbatimPattern.exec(text)) !== null) {
+      verbatim.push({ start: match.index, end: match.index + match[0].length });
+   }
+   const math = findMathRegions(source);
+   const untouched = [...verbatim, ...math];
+   const isUntouched = (offset: number) => untouched.some(region => region.start < offset && offset < region.end);
+
+   // Brace depth at the start of each line; braces in math don't count
+   const depths = [0];
+   let depth = 0;
+   let nextMath = 0;
+   for (let i = 0; i < source.length; i++) {
+      if (nextMath < math.length && i === math[nextMath].start) {
+         // Skip the math, but not the line starts inside it
+         for (; i < math[nextMath].end; i++) {
+            if (source[i] === '\n') {
+               depths.push(depth);
+            }
+         }
+         i--;
+         nextMath++;
+      } else if (source[i] === '\n') {
+         depths.push(depth);
+      } else if (source[i] === '\\') {
+         if (source[i + 1] === '\n') {
+            depths.push(depth);
+         }
+         i++;
+      } else if (source[i] === '{') {
+         depth++;
+      } else if (source[i] === '}') {
+         depth = Math.max(0, depth - 1);
+      }
+   }
+
+   const result: (string | null)[] = [];
+   let lineStart = 0;
+   let previousBlank = true; // no blank lines at the start
+   for (let lineNumber = 0; lineNumber < depths.length; lineNumber++) {
+      const newline = text.indexOf('\n', lineStart);
+      const lineEnd = newline < 0 ? text.length : newline;
+      const line = text.slice(lineStart, lineEnd).replace(/\r$/, '');
+
+      if (isUntouched(lineStart)) {
+         result.push(line);
+         previousBlank = false;
+      } else if (!line.trim()) {
+         result.push(previousBlank ? null : '');
+         previousBlank = true;
+      } else {
+         // Closing braces at the start of a line belong to the level they close
+         const closing = /^\s*(}*)/.exec(source.slice(lineStart, lineEnd))![1].length;
+         // Trailing whitespace may be part of a verbatim block or math starting on this line
+         const content = isUntouched(lineStart + line.length) ? line.trimStart() : line.trim();
+         result.push(indentUnit.repeat(Math.max(0, depths[lineNumber] - closing)) + content);
+         previousBlank = false;
+      }
+
+      lineStart = lineEnd + 1;
+   }
+
+   return result;
+}
+
+/**
+ * Format the whole text of a tree
+ */
+export function formatTree(text: string, options: vscode.FormattingOptions, eol = '\n'): string {
+   const indentUnit = options.insertSpaces ? ' '.repeat(options.tabSize) : '\t';
+   const reordered = reorderHeader(text.split(/\r?\n/)).join('\n');
+   const lines = layoutLines(reordered, indentUnit).filter((line): line is string => line !== null);
+   while (lines.length > 0 && !lines[lines.length - 1].trim()) {
+      lines.pop();
+   }
+   return lines.join(eol) + eol;
+}
+
+export class ForesterFormattingProvider implements vscode.DocumentFormattingEditProvider, vscode.DocumentRangeFormattingEditProvider {
+   public provideDocumentFormattingEdits(document: vscode.TextDocument, options: vscode.FormattingOptions): vscode.TextEdit[] {
+      const text = document.getText();
+      const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+      const formatted = formatTree(text, options, eol);
+      if (formatted === text) {
+         return [];
+      }
+
+      const all = new vscode.Range(document.positionAt(0), document.positionAt(text.length));
+      return [vscode.TextEdit.replace(all, formatted)];
+   }
+
+   /**
+    * Selections are only re-indented and tidied; the header is reordered by Format Document
+    */
+   public provideDocumentRangeFormattingEdits(document: vscode.TextDocument, range: vscode.Range, options: vscode.FormattingOptions): vscode.TextEdit[] {
+      const indentUnit = options.insertSpaces ? ' '.repeat(options.tabSize) : '\t';
+      const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+      const lines = layoutLines(document.getText(), indentUnit);
+
+      const startLine = range.start.line;
+      const endLine = range.end.character === 0 && range.end.line > startLine ? range.end.line - 1 : range.end.line;
+      const formatted = lines.slice(startLine, endLine + 1).filter((line): line is string => line !== null).join(eol);
+
+      const lineRange = new vscode.Range(startLine, 0, endLine, document.lineAt(endLine).text.length);
+      if (formatted === document.getText(lineRange)) {
+         return [];
+      }
+      return [vscode.TextEdit.replace(lineRange, formatted)];
+   }
+}
@@ -0,0 +1,341 @@
+/**
+ * tree-parser.ts - Lightweight parser for .tree source files
+ *
+ * This is not a full forester parser. It understands just enough of the syntax
+ * (comments, verbatim blocks, balanced braces) to pull out the metadata and the
+ * outgoing tree references of a single file without calling forester.
+ */
+
+export type TreeReferenceType = 'transclude' | 'import' | 'export' | 'ref' | 'link';
+
+/**
+ * A reference to another tree, with offsets of the referenced ID in the source text
+ */
+export interface TreeReference {
+   treeId: string;
+   type: TreeReferenceType;
+   start: number;
+   end: number;
+}
+
+/**
+ * A `\def` macro definition, with offsets of the macro's name in the source text
+ */
+export interface MacroDefinition {
+   name: string;
+   /** Argument names, in order */
+   parameters: string[];
+   body: string;
+   start: number;
+   end: number;
+}
+
+/**
+ * The commands that make up a tree's metadata, in the order new trees are written in
+ */
+export const METADATA_COMMANDS: readonly string[] = ['date', 'author', 'contributor', 'taxon', 'title', 'tag', 'meta', 'parent', 'number'];
+
+export interface ParsedTree {
+   title: string | null;
+   taxon: string | null;
+   tags: string[];
+   metas: { [key: string]: string };
+   references: TreeReference[];
+}
+
+/**
+ * Blank out comments and verbatim regions so that later pattern matching can't
+ * see commands inside them. Offsets are preserved (everything becomes spaces).
+ */
+export function maskInactiveRegions(text: string): string {
+   const blank = (s: string) => s.replace(/[^\n]/g, ' ');
+
+   return text
+      // \startverb ... \stopverb
+      .replace(/\\startverb[\s\S]*?(?:\\stopverb|$)/g, blank)
+      // % comments, but not escaped \%
+      .replace(/(^|[^\\])(%[^\n]*)/g, (_, before: string, comment: string) => before + blank(comment));
+}
+
+/**
+ * Read a brace-delimited argument starting at `open` (which must point at `{`).
+ * Returns the argument contents and the index just past the closing brace.
+ */
+export function readBracedArgument(text: string, open: number): { content: string; end: number } | null {
+   if (text[open] !== '{') {
+      return null;
+   }
+
+   let depth = 0;
+   for (let i = open; i < text.length; i++) {
+      const char = text[i];
+      if (char === '\\') {
+         i++; // skip escaped character
+      } else if (char === '{') {
+         depth++;
+      } else if (char === '}') {
+         depth--;
+         if (depth === 0) {
+            return { content: text.slice(open + 1, i), end: i + 1 };
+         }
+      }
+   }
+
+   return null;
+}
+
+/**
+ * The `#{...}` and `##{...}` math in (masked) `source`, which holds TeX rather than forester markup
+ */
+export function findMathRegions(source: string): { start: number; end: number }[] {
+   const regions: { start: number; end: number }[] = [];
+   const mathPattern = /##?\{/g;
+   let match;
+   while ((match = mathPattern.exec(source)) !== null) {
+      // `\#` is an escaped hash, not math
+      if (source[match.index - 1] === '\\') {
+         continue;
+      }
+      const argument = readBracedArgument(source, match.index + match[0].length - 1);
+      const end = argument ? argument.end : source.length;
+      regions.push({ start: match.index, end });
+      mathPattern.lastIndex = end;
+   }
+   return regions;
+}
+
+/**
+ * The uses of the commands `names` in (masked) `source` that belong to the tree itself,
+ * not to an inline `\subtree` or any other argument, with their first argument
+ */
+function* topLevelCommands(source: string, names: readonly string[]): Generator<{ name: string; start: number; argument: { content: string; end: number } }> {
+   // Brace depth, tracked incrementally as the matches move forward
+   let depth = 0;
+   let scanned = 0;
+   const depthAt = (index: number) => {
+      for (; scanned < index; scanned++) {
+         const char = source[scanned];
+         if (char === '\\') {
+            scanned++;
+         } else if (char === '{') {
+            depth++;
+         } else if (char === '}') {
+            depth--;
+         }
+      }
+      return depth;
+   };
+
+   const commandPattern = new RegExp(`\\\\(${names.join('|')})(?=\\{)`, 'g');
+   let match;
+   while ((match = commandPattern.exec(source)) !== null) {
+      if (depthAt(match.index) > 0) {
+         continue;
+      }
+
+      const argument = readBracedArgument(source, match.index + match[0].length);
+      if (argument) {
+         yield { name: match[1], start: match.index, argument };
+      }
+   }
+}
+
+/**
+ * Turn forester markup into plain text, roughly the way forester renders titles
+ * in `query all` (commands dropped, their arguments kept).
+ */
+export function markupToPlainText(markup: string): string {
+   return markup
+      .replace(/\\[A-Za-z][\w-]*/g, '')
+      .replace(/#+\{/g, '{')
+      .replace(/[{}]/g, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+}
+
+/**
+ * Whether `treeId` is something forester accepts as a tree address
+ */
+export function isValidTreeId(treeId: string): boolean {
+   return /^[A-Za-z0-9_-]+$/.test(treeId);
+}
+
+/**
+ * Whether a reference is to a tree. Links can point at files (`file.pdf`), anchors (`#x`)
+ * and paths as well, and those aren't checked against the forest.
+ */
+export function isTreeReference(reference: TreeReference): boolean {
+   return reference.type !== 'link' || isValidTreeId(reference.treeId);
+}
+
+/**
+ * Find every reference to another tree in the given source text
+ */
+export function findTreeReferences(text: string): TreeReference[] {
+   const source = maskInactiveRegions(text);
+   const references: TreeReference[] = [];
+
+   const patterns: { regex: RegExp; type?: TreeReferenceType }[] = [
+      { regex: /\\(transclude|import|export|ref)\{([^}]*)\}/g },
+      { regex: /\[[^\]]*\]\(([^)]*)\)/g, type: 'link' },
+      { regex: /\[\[([^\]]*)\]\]/g, type: 'link' },
+   ];
+
+   for (const { regex, type } of patterns) {
+      let match;
+      while ((match = regex.exec(source)) !== null) {
+         const treeId = (type ? match[1] : match[2]).trim();
+         if (!treeId || /^[a-z]+:/i.test(treeId)) {
+            continue; // skip empty and external (https: etc.) links
+         }
+
+         const start = match.index + match[0].lastIndexOf(treeId);
+         references.push({
+            treeId,
+            type: type ?? match[1] as TreeReferenceType,
+            start,
+            end: start + treeId.length,
+         });
+      }
+   }
+
+   return references.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Find every `\def\name[arg]...{body}` macro definition in the given source text
+ */
+export function findMacroDefinitions(text: string): MacroDefinition[] {
+   const source = maskInactiveRegions(text);
+   const definitions: MacroDefinition[] = [];
+
+   const defPattern = /\\def\s*\\([A-Za-z][\w/-]*)/g;
+   let match;
+   while ((match = defPattern.exec(source)) !== null) {
+      const parameters: string[] = [];
+      let position = match.index + match[0].length;
+
+      // [x][~y]...: one per argument (~ marks a lazy one)
+      let parameter;
+      const parameterPattern = /^\s*\[([^\]]*)\]/;
+      while ((parameter = parameterPattern.exec(source.slice(position))) !== null) {
+         parameters.push(parameter[1].trim());
+         position += parameter[0].length;
+      }
+
+      const bodyStart = source.slice(position).search(/\S/);
+      const body = bodyStart < 0 ? null : readBracedArgument(source, position + bodyStart);
+      if (!body) {
+         continue;
+      }
+
+      const start = match.index + match[0].length - match[1].length;
+      definitions.push({
+         name: match[1],
+         parameters,
+         body: text.slice(position + bodyStart + 1, body.end - 1),
+         start,
+         end: start + match[1].length,
+      });
+      defPattern.lastIndex = body.end;
+   }
+
+   return definitions;
+}
+
+/**
+ * The whole construct a reference is part of (`\transclude{id}`, `[text](id)`, `[[id]]`),
+ * and the text to leave in its place when removing it: the link text of a markdown link.
+ */
+export function referenceExtent(text: string, reference: TreeReference): { start: number; end: number; replacement: string } {
+   if (reference.type !== 'link') {
+      const start = text.lastIndexOf(`\\${reference.type}{`, reference.start);
+      const end = text.indexOf('}', reference.end);
+      return { start: start < 0 ? reference.start : start, end: end < 0 ? reference.end : end + 1, replacement: '' };
+   }
+
+   // [[id]]
+   if (text.slice(reference.start - 2, reference.start) === '[[') {
+      return { start: reference.start - 2, end: text.indexOf(']]', reference.end) + 2, replacement: '' };
+   }
+
+   // [text](id)
+   const close = text.lastIndexOf('](', reference.start);
+   const open = text.lastIndexOf('[', close);
+   const end = text.indexOf(')', reference.end);
+   if (close < 0 || open < 0 || end < 0) {
+      return { start: reference.start, end: reference.end, replacement: '' };
+   }
+   return { start: open, end: end + 1, replacement: text.slice(open + 1, close) };
+}
+
+/**
+ * A tree's source without its own metadata (title, taxon, dates, authors, tags, metas),
+ * i.e. the body that would be pasted in place of a transclusion of it
+ */
+export function stripTreeMetadata(text: string): string {
+   const source = maskInactiveRegions(text);
+   const removals: { start: number; end: number }[] = [];
+
+   for (const command of topLevelCommands(source, METADATA_COMMANDS)) {
+      let argument = command.argument;
+      if (command.name === 'meta') {
+         argument = readBracedArgument(source, argument.end) ?? argument;
+      }
+
+      // Take the rest of the line with it if nothing else is on it
+      const rest = /^[ \t]*(\r?\n|$)/.exec(source.slice(argument.end));
+      removals.push({ start: command.start, end: argument.end + (rest ? rest[0].length : 0) });
+   }
+
+   let result = '';
+   let position = 0;
+   for (const { start, end } of removals) {
+      result += text.slice(position, start);
+      position = end;
+   }
+   return result + text.slice(position);
+}
+
+/**
+ * Parse the metadata and references out of a tree's source text
+ */
+export function parseTreeSource(text: string): ParsedTree {
+   const source = maskInactiveRegions(text);
+
+   const parsed: ParsedTree = {
+      title: null,
+      taxon: null,
+      tags: [],
+      metas: {},
+      references: findTreeReferences(text),
+   };
+
+   // Metadata of inline \subtree blocks isn't the tree's own
+   for (const { name, argument } of topLevelCommands(source, ['title', 'taxon', 'tag', 'meta'])) {
+      switch (name) {
+         case 'title':
+            if (parsed.title === null) {
+               parsed.title = markupToPlainText(argument.content);
+            }
+            break;
+         case 'taxon':
+            if (parsed.taxon === null) {
+               parsed.taxon = markupToPlainText(argument.content);
+            }
+            break;
+         case 'tag':
+            parsed.tags.push(markupToPlainText(argument.content));
+            break;
+         case 'meta': {
+            const value = readBracedArgument(source, argument.end);
+            if (value) {
+               parsed.metas[argument.content.trim()] = markupToPlainText(value.content);
+            }
+            break;
+         }
+      }
+   }
+
+   return parsed;
+}
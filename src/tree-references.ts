@@ -0,0 +1,133 @@
+/**
+ * tree-references.ts - "Who links here?" for tree IDs
+ *
+ * Uses the outgoing references the forest cache keeps for every tree (see
+ * `ForesterTree.references`) as a reverse index, re-reading the sources of
+ * the matching trees (or their open, possibly unsaved, documents) to get
+ * exact locations.
+ */
+
+import * as vscode from 'vscode';
+import { basename } from 'path';
+import { readFile } from 'fs/promises';
+import { getForest } from './get-forest';
+import { findTreeReferences, TreeReference } from './tree-parser';
+
+/**
+ * A reference to a tree, located in a document
+ */
+export interface TreeReferenceLocation {
+   location: vscode.Location;
+   reference: TreeReference;
+}
+
+/**
+ * The tree ID under the cursor: the target of a link, transclusion, import, export or ref.
+ * In a tree file, anywhere else means the tree itself (unless `linksOnly` is set).
+ */
+export function treeIdAtPosition(document: vscode.TextDocument, position: vscode.Position, linksOnly = false): { treeId: string; range?: vscode.Range } | undefined {
+   const offset = document.offsetAt(position);
+   const reference = findTreeReferences(document.getText()).find(ref => ref.start <= offset && offset <= ref.end);
+   if (reference) {
+      return {
+         treeId: reference.treeId,
+         range: new vscode.Range(document.positionAt(reference.start), document.positionAt(reference.end)),
+      };
+   }
+
+   if (!linksOnly && document.fileName.endsWith('.tree')) {
+      return { treeId: basename(document.fileName, '.tree') };
+   }
+   return undefined;
+}
+
+/**
+ * Every reference to `treeId` in the forest that owns `uri`
+ */
+export async function findReferencesTo(treeId: string, uri: vscode.Uri): Promise<TreeReferenceLocation[]> {
+   const forest = await getForest({ uri, fastReturnStale: true });
+   const openDocuments = new Map(vscode.workspace.textDocuments.map(document => [document.fileName, document]));
+
+   const results = await Promise.all(forest.map(async (tree): Promise<TreeReferenceLocation[]> => {
+      if (!tree.sourcePath) {
+         return [];
+      }
+
+      // Open documents may have unsaved edits, so always look at their current text
+      const document = openDocuments.get(tree.sourcePath);
+      if (!document && !tree.references?.some(reference => reference.treeId === treeId)) {
+         return [];
+      }
+
+      let text: string;
+      try {
+         text = document?.getText() ?? await readFile(tree.sourcePath, 'utf-8');
+      } catch {
+         return [];
+      }
+
+      const fileUri = vscode.Uri.file(tree.sourcePath);
+      const lineStarts = document ? undefined : computeLineStarts(text);
+      const toPosition = (offset: number) => document?.positionAt(offset) ?? positionAt(lineStarts!, offset);
+
+      return findTreeReferences(text)
+         .filter(reference => reference.treeId === treeId)
+         .map(reference => ({
+            reference,
+            location: new vscode.Location(fileUri, new vscode.Range(toPosition(reference.start), toPosition(reference.end))),
+         }));
+   }));
+
+   return results.flat();
+}
+
+function computeLineStarts(text: string): number[] {
+   const starts = [0];
+   for (let i = 0; i < text.length; i++) {
+      if (text[i] === '\n') {
+         starts.push(i + 1);
+      }
+   }
+   return starts;
+}
+
+function positionAt(lineStarts: number[], offset: number): vscode.Position {
+   // Last line starting at or before offset
+   let low = 0;
+   let high = lineStarts.length - 1;
+   while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (lineStarts[middle] <= offset) {
+         low = middle;
+      } else {
+         high = middle - 1;
+      }
+   }
+   return new vscode.Position(low, offset - lineStarts[low]);
+}
+
+export class ForesterReferenceProvider implements vscode.ReferenceProvider {
+   public async provideReferences(
+      document: vscode.TextDocument,
+      position: vscode.Position,
+      context: vscode.ReferenceContext,
+   ): Promise<vscode.Location[]> {
+      const target = treeIdAtPosition(document, position);
+      if (!target) {
+         return [];
+      }
+
+      const locations = (await findReferencesTo(target.treeId, document.uri)).map(result => result.location);
+
+      // The declaration of a tree is its file
+      if (context.includeDeclaration) {
+         const forest = await getForest({ uri: document.uri, fastReturnStale: true });
+         const tree = forest.find(entry => entry.uri === target.treeId);
+         if (tree?.sourcePath) {
+            locations.unshift(new vscode.Location(vscode.Uri.file(tree.sourcePath), new vscode.Position(0, 0)));
+         }
+      }
+
+      return locations;
+   }
+}
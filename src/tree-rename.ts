@@ -0,0 +1,85 @@
+/**
+ * tree-rename.ts - F2 rename of tree IDs
+ *
+ * A tree's ID is its filename, so renaming one means renaming the file and
+ * rewriting every transclusion, import, export, ref and link that points at
+ * it. All of it goes into a single WorkspaceEdit, so it can be undone at once.
+ * (Changing a tree's title and taxon is `forester.renameTree` in edit-forest.ts.)
+ */
+
+import * as vscode from 'vscode';
+import { dirname, join } from 'path';
+import { existsSync } from 'fs';
+import { getForest, getForeignForest } from './get-forest';
+import { findReferencesTo, treeIdAtPosition } from './tree-references';
+import { isValidTreeId } from './tree-parser';
+
+export class ForesterRenameProvider implements vscode.RenameProvider {
+   public async prepareRename(document: vscode.TextDocument, position: vscode.Position): Promise<{ range: vscode.Range; placeholder: string }> {
+      const target = treeIdAtPosition(document, position);
+      if (!target) {
+         throw new Error('Place the cursor on a tree ID to rename it');
+      }
+
+      const tree = (await getForest({ uri: document.uri, fastReturnStale: true })).find(entry => entry.uri === target.treeId);
+      if (!tree) {
+         const foreign = (await getForeignForest(document.uri)).some(entry => entry.uri === target.treeId);
+         throw new Error(foreign
+            ? `Tree '${target.treeId}' belongs to a foreign forest and can't be renamed from here`
+            : `Tree '${target.treeId}' not found`);
+      }
+
+      // Off a reference the rename is of this tree, so anchor the input box on the word or line under the cursor
+      const line = document.lineAt(position.line).range;
+      const range = target.range ?? document.getWordRangeAtPosition(position) ?? (line.isEmpty ? document.lineAt(0).range : line);
+      return { range, placeholder: target.treeId };
+   }
+
+   public async provideRenameEdits(document: vscode.TextDocument, position: vscode.Position, newName: string): Promise<vscode.WorkspaceEdit> {
+      const target = treeIdAtPosition(document, position);
+      if (!target) {
+         throw new Error('Place the cursor on a tree ID to rename it');
+      }
+
+      const oldId = target.treeId;
+      const newId = newName.trim();
+      if (newId === oldId) {
+         return new vscode.WorkspaceEdit();
+      }
+      if (!isValidTreeId(newId)) {
+         throw new Error(`'${newId}' is not a valid tree ID (use letters, numbers, '-' and '_')`);
+      }
+
+      const forest = await getForest({ uri: document.uri, fastReturnStale: true });
+      const foreign = await getForeignForest(document.uri);
+      if (forest.some(entry => entry.uri === newId) || foreign.some(entry => entry.uri === newId)) {
+         throw new Error(`A tree with ID '${newId}' already exists`);
+      }
+
+      const tree = forest.find(entry => entry.uri === oldId);
+      if (!tree?.sourcePath) {
+         throw new Error(`Tree '${oldId}' not found`);
+      }
+
+      const newPath = join(dirname(tree.sourcePath), `${newId}.tree`);
+      if (existsSync(newPath)) {
+         throw new Error(`${newPath} already exists`);
+      }
+
+      const references = (await findReferencesTo(oldId, document.uri)).map(result => result.location);
+      return buildRenameEdit(tree.sourcePath, newPath, newId, references);
+   }
+}
+
+/**
+ * The edit that moves the tree at `sourcePath` to `newPath` and points every reference at `newId`
+ */
+export function buildRenameEdit(sourcePath: string, newPath: string, newId: string, references: vscode.Location[]): vscode.WorkspaceEdit {
+   // Rewrite the references first: they include ones inside the file being renamed
+   const edit = new vscode.WorkspaceEdit();
+   for (const location of references) {
+      edit.replace(location.uri, location.range, newId);
+   }
+   edit.renameFile(vscode.Uri.file(sourcePath), vscode.Uri.file(newPath));
+   return edit;
+}
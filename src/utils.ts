@@ -5,6 +5,8 @@
 import * as vscode from "vscode";
 import { readFile, access, constants } from "fs/promises";
 import { join } from "path";
+import { existsSync } from "fs";
+import { getForestDirectory } from "./execution-profile";
 
 /**
  * TypeScript interface for forest.toml configuration
@@ -28,33 +30,57 @@ export interface ForestConfig {
 }
 
 /**
- * Get the root workspace folder.
+ * Get the name of the forester config file for a forest (defaults to forest.toml)
+ */
+export function getConfigFileName(root?: vscode.Uri): string {
+   const config = vscode.workspace.getConfiguration("forester", root);
+   return config.get<string>("config") || "forest.toml";
+}
+
+/**
+ * Get the root of the forest that owns `uri`, i.e. its workspace folder.
+ * Without a uri the active editor's document decides, falling back to the
+ * first workspace folder that contains a forest.
  * Throws an error if no workspace is open or if opening a single file.
  */
-export function getRoot(): vscode.Uri {
-   if (vscode.workspace.workspaceFolders?.length) {
-      if (vscode.workspace.workspaceFolders.length !== 1) {
-         vscode.window.showWarningMessage(
-            "vscode-forester only supports opening one workspace folder.",
-         );
-      }
-      return vscode.workspace.workspaceFolders[0].uri;
-   } else {
+export function getRoot(uri?: vscode.Uri): vscode.Uri {
+   const folders = vscode.workspace.workspaceFolders;
+   if (!folders?.length) {
       // Probably opened a single file
       throw new vscode.FileSystemError(
          "vscode-forester doesn't support opening a single file.",
       );
    }
-}
 
-export async function getForestConfig(): Promise<ForestConfig | null> {
-   const root = getRoot();
+   const target = uri ?? vscode.window.activeTextEditor?.document.uri;
+   const owner = target && vscode.workspace.getWorkspaceFolder(target);
+   if (owner) {
+      return owner.uri;
+   }
 
-   const config = vscode.workspace.getConfiguration("forester");
+   const forestFolder = folders.find(folder => existsSync(join(getForestDirectory(folder.uri), getConfigFileName(folder.uri))));
+   return (forestFolder ?? folders[0]).uri;
+}
 
-   let configFile = config.get<string>("config") || "forest.toml";
+/**
+ * Get the roots of all forests in the workspace: every workspace folder that
+ * contains a forester config file
+ */
+export async function getForestRoots(): Promise<vscode.Uri[]> {
+   const roots: vscode.Uri[] = [];
+   for (const folder of vscode.workspace.workspaceFolders ?? []) {
+      try {
+         await access(join(getForestDirectory(folder.uri), getConfigFileName(folder.uri)), constants.R_OK);
+         roots.push(folder.uri);
+      } catch {
+         // not a forest
+      }
+   }
+   return roots;
+}
 
-   const configPath = join(root.fsPath, configFile);
+export async function getForestConfig(root: vscode.Uri = getRoot()): Promise<ForestConfig | null> {
+   const configPath = join(getForestDirectory(root), getConfigFileName(root));
 
    const content = await readFile(configPath, "utf-8");
 
@@ -65,9 +91,9 @@ export async function getForestConfig(): Promise<ForestConfig | null> {
 /**
  * Get the trees directories from forest.toml config
  */
-export async function getTreesDirectories(): Promise<string[]> {
+export async function getTreesDirectories(root: vscode.Uri = getRoot()): Promise<string[]> {
    try {
-      const config = await getForestConfig()
+      const config = await getForestConfig(root);
       return config?.forest?.trees || ["trees"]; // Default to ["trees"] if not specified
    } catch (error) {
       console.error("Failed to read forest.toml, defaulting to 'trees' directory:", error);
@@ -78,24 +104,22 @@ export async function getTreesDirectories(): Promise<string[]> {
 /**
  * Get the root trees directory for creating new trees
  */
-export async function getRootTreeDirectory(): Promise<vscode.Uri> {
-   const root = getRoot();
-   const dirs = await getTreesDirectories();
+export async function getRootTreeDirectory(root: vscode.Uri = getRoot()): Promise<vscode.Uri> {
+   const dirs = await getTreesDirectories(root);
    // Use the first directory as the root one
-   return vscode.Uri.joinPath(root, dirs[0]);
+   return vscode.Uri.joinPath(vscode.Uri.file(getForestDirectory(root)), dirs[0]);
 }
 
 /**
  * Get available templates from the templates directory
  * @returns Array of template names (without .tree extension), plus "(No template)" option
  */
-export async function getAvailableTemplates(): Promise<string[]> {
-   const root = getRoot();
+export async function getAvailableTemplates(root: vscode.Uri = getRoot()): Promise<string[]> {
    let templates: string[] = [];
 
    try {
       const templateFiles = await vscode.workspace.fs.readDirectory(
-         vscode.Uri.joinPath(root, 'templates')
+         vscode.Uri.joinPath(vscode.Uri.file(getForestDirectory(root)), 'templates')
       );
       templates = templateFiles
          .filter(([n, f]) => f === vscode.FileType.File && n.endsWith(".tree"))
@@ -111,14 +135,14 @@ export async function getAvailableTemplates(): Promise<string[]> {
 /**
  * Get the prefix for new trees from config, or prompt if not set
  */
-export async function getPrefix(): Promise<string | undefined> {
+export async function getPrefix(root: vscode.Uri = getRoot()): Promise<string | undefined> {
    // Get prefixes from configuration
-   const extensionConfig = vscode.workspace.getConfiguration("forester")
+   const extensionConfig = vscode.workspace.getConfiguration("forester", root);
 
    const defaultPrefix = extensionConfig.get<string>('defaultPrefix')
    if (defaultPrefix) return defaultPrefix
 
-   const configToml = await getForestConfig()
+   const configToml = await getForestConfig(root);
    const prefixes = configToml?.forest?.prefixes;
 
    let prefix: string | undefined;
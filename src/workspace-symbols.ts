@@ -0,0 +1,69 @@
+/**
+ * workspace-symbols.ts - Find trees by title, ID, taxon or tag with Ctrl+T
+ *
+ * Backed by the cached forest of every forest in the workspace, so searching
+ * never waits for forester.
+ */
+
+import * as vscode from 'vscode';
+import { Forest, getForest } from './get-forest';
+import { getForestRoots } from './utils';
+
+/**
+ * Whether the characters of `query` appear in order in `text` (the relaxed matching VS Code expects)
+ */
+function matchesQuery(query: string, text: string): boolean {
+   let index = 0;
+   for (const char of query) {
+      if (/\s/.test(char)) {
+         continue;
+      }
+      index = text.indexOf(char, index);
+      if (index < 0) {
+         return false;
+      }
+      index++;
+   }
+   return true;
+}
+
+/**
+ * The trees of `forest` with a source whose title, ID, taxon or tags match `query`
+ */
+export function findMatchingTrees(forest: Forest, query: string): Forest {
+   const normalizedQuery = query.toLowerCase();
+   return forest.filter(tree => {
+      const searchText = [tree.title, tree.uri, tree.taxon, ...(tree.tags ?? [])].filter(Boolean).join(' ').toLowerCase();
+      return !!tree.sourcePath && matchesQuery(normalizedQuery, searchText);
+   });
+}
+
+export class ForesterWorkspaceSymbolProvider implements vscode.WorkspaceSymbolProvider {
+   public async provideWorkspaceSymbols(query: string, token: vscode.CancellationToken): Promise<vscode.SymbolInformation[]> {
+      const symbols: vscode.SymbolInformation[] = [];
+
+      for (const root of await getForestRoots()) {
+         const forest = await getForest({ uri: root, fastReturnStale: true });
+         if (token.isCancellationRequested) {
+            return [];
+         }
+
+         for (const tree of findMatchingTrees(forest, query)) {
+            const details = [
+               tree.title ? `[${tree.uri}]` : undefined,
+               tree.taxon ?? undefined,
+               ...(tree.tags ?? []).map(tag => `#${tag}`),
+            ].filter(Boolean).join(' ');
+
+            symbols.push(new vscode.SymbolInformation(
+               tree.title || tree.uri,
+               vscode.SymbolKind.File,
+               details,
+               new vscode.Location(vscode.Uri.file(tree.sourcePath), new vscode.Position(0, 0)),
+            ));
+         }
+      }
+
+      return symbols;
+   }
+}